@@ -0,0 +1,122 @@
+// Offline support: keeps the app shell, basemap tiles and WMS tiles so the map keeps
+// working on poor connections. Offline packs are downloaded by the page with the
+// X-Orber-Pack header naming the cache to store them in.
+
+const APP_CACHE = 'orber-app';
+const RUNTIME_CACHE = 'orber-tiles-runtime';
+const PACK_CACHE_PREFIX = 'orber-pack-';
+const PACK_HEADER = 'X-Orber-Pack';
+// Recently viewed tiles kept besides the packs, oldest dropped first
+const MAX_RUNTIME_TILES = 2000;
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const isBasemapTile = (url) =>
+  (url.hostname === 'server.arcgisonline.com' && url.pathname.includes('/tile/')) || url.hostname === 'tile.openstreetmap.org';
+
+const getParam = (url, name) => {
+  for (const [key, value] of url.searchParams) {
+    if (key.toUpperCase() === name) return value;
+  }
+  return null;
+};
+
+const isWMSTile = (url) => getParam(url, 'REQUEST')?.toLowerCase() === 'getmap';
+
+// Leaflet and the pack download build GetMap URLs with different parameter order and
+// casing, so tiles are keyed on what determines the image
+const cacheKey = (url) => {
+  if (!isWMSTile(url)) return url.href;
+  const bbox = (getParam(url, 'BBOX') ?? '').split(',').map((value) => Number(value).toFixed(1)).join(',');
+  const params = new URLSearchParams({
+    LAYERS: getParam(url, 'LAYERS') ?? '',
+    TIME: getParam(url, 'TIME') ?? '',
+    BBOX: bbox,
+    WIDTH: getParam(url, 'WIDTH') ?? '',
+    HEIGHT: getParam(url, 'HEIGHT') ?? '',
+  });
+  return `${url.origin}${url.pathname}?${params}`;
+};
+
+const notify = async (clientId, source) => {
+  const client = clientId && (await self.clients.get(clientId));
+  client?.postMessage({ type: 'orber-tile', source });
+};
+
+let runtimePuts = 0;
+const trimRuntimeCache = async () => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_RUNTIME_TILES)).map((key) => cache.delete(key)));
+};
+
+const fetchTile = (url) => fetch(url.href, { mode: 'cors', credentials: 'omit' });
+
+const handlePackDownload = async (url, pack) => {
+  const response = await fetchTile(url);
+  if (response.ok) {
+    const cache = await caches.open(`${PACK_CACHE_PREFIX}${pack}`);
+    await cache.put(cacheKey(url), response.clone());
+  }
+  return response;
+};
+
+// Pack tiles don't change, so they're served without a round trip; others try the
+// network first and fall back to whatever was cached
+const handleTile = async (url, clientId) => {
+  const key = cacheKey(url);
+  const cachedNames = (await caches.keys()).filter((name) => name.startsWith(PACK_CACHE_PREFIX));
+  for (const name of cachedNames) {
+    const cached = await (await caches.open(name)).match(key);
+    if (cached) {
+      notify(clientId, 'cache');
+      return cached;
+    }
+  }
+
+  try {
+    const response = await fetchTile(url);
+    if (response.ok) {
+      const cache = await caches.open(RUNTIME_CACHE);
+      await cache.put(key, response.clone());
+      if (++runtimePuts % 100 === 0) trimRuntimeCache();
+    }
+    notify(clientId, 'network');
+    return response;
+  } catch (error) {
+    const cached = await (await caches.open(RUNTIME_CACHE)).match(key);
+    notify(clientId, cached ? 'cache' : 'missing');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Serve the app from the network when possible so updates show up, from the cache otherwise
+const handleAppRequest = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request.mode === 'navigate' ? '/' : request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request.mode === 'navigate' ? '/' : request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  const pack = request.headers.get(PACK_HEADER);
+  if (pack) {
+    event.respondWith(handlePackDownload(url, pack));
+  } else if (isBasemapTile(url) || isWMSTile(url)) {
+    event.respondWith(handleTile(url, event.clientId));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleAppRequest(request));
+  }
+});
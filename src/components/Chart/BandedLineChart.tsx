@@ -0,0 +1,145 @@
+import React from 'react';
+
+export interface ChartPoint {
+  x: number;
+  y: number | null;
+}
+
+export interface ChartBand {
+  from: number;
+  to: number;
+  color: string;
+  label: string;
+}
+
+interface BandedLineChartProps {
+  points: ChartPoint[];
+  bands?: ChartBand[];
+  formatX: (x: number) => string;
+  unit?: string;
+  highlightIndex?: number | null;
+  onHover?: (index: number | null) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const MARGIN = { top: 10, right: 12, bottom: 28, left: 48 };
+const Y_TICKS = 5;
+const X_TICKS = 6;
+
+// Line chart with shaded value bands behind it; gaps are left where y is null
+export function BandedLineChart({ points, bands = [], formatX, unit, highlightIndex, onHover }: BandedLineChartProps) {
+  const valid = points.filter((point) => point.y !== null) as { x: number; y: number }[];
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const xs = points.map((point) => point.x);
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs);
+  const ys = [...valid.map((point) => point.y), ...bands.flatMap((band) => [band.from, band.to])];
+  const yMin = Math.min(0, ...ys);
+  const yMax = Math.max(...ys, yMin + 1);
+
+  const scaleX = (x: number) => MARGIN.left + (xMax === xMin ? innerWidth / 2 : ((x - xMin) / (xMax - xMin)) * innerWidth);
+  const scaleY = (y: number) => MARGIN.top + innerHeight - ((y - yMin) / (yMax - yMin)) * innerHeight;
+
+  // Break the line into runs of consecutive valid points
+  const segments: string[] = [];
+  let current: string[] = [];
+  for (const point of points) {
+    if (point.y === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${current.length === 0 ? 'M' : 'L'}${scaleX(point.x)},${scaleY(point.y)}`);
+    }
+  }
+  if (current.length > 0) segments.push(current.join(' '));
+
+  const yTicks = Array.from({ length: Y_TICKS }, (_, i) => yMin + ((yMax - yMin) * i) / (Y_TICKS - 1));
+  const xStep = Math.max(1, Math.ceil(points.length / X_TICKS));
+  const xTicks = points.filter((_, i) => i % xStep === 0);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    if (!onHover || points.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = MARGIN.left + ((e.clientX - rect.left) / rect.width) * innerWidth;
+    let nearest = 0;
+    points.forEach((point, i) => {
+      if (Math.abs(scaleX(point.x) - x) < Math.abs(scaleX(points[nearest].x) - x)) nearest = i;
+    });
+    onHover(nearest);
+  };
+
+  const highlighted = highlightIndex !== null && highlightIndex !== undefined ? points[highlightIndex] : undefined;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-white">
+      {bands.map((band) => {
+        const top = scaleY(Math.min(Math.max(band.from, band.to), yMax));
+        const bottom = scaleY(Math.max(Math.min(band.from, band.to), yMin));
+        return (
+          <rect
+            key={band.label}
+            x={MARGIN.left}
+            y={top}
+            width={innerWidth}
+            height={Math.max(0, bottom - top)}
+            fill={band.color}
+            fillOpacity={0.2}
+          >
+            <title>{band.label}</title>
+          </rect>
+        );
+      })}
+
+      {yTicks.map((tick) => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="currentColor" strokeOpacity={0.15} />
+          <text x={MARGIN.left - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="currentColor">
+            {tick.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      {unit && (
+        <text x={4} y={MARGIN.top} fontSize={10} fill="currentColor" dominantBaseline="hanging">
+          {unit}
+        </text>
+      )}
+
+      {xTicks.map((point) => (
+        <text key={point.x} x={scaleX(point.x)} y={HEIGHT - 8} textAnchor="middle" fontSize={10} fill="currentColor">
+          {formatX(point.x)}
+        </text>
+      ))}
+
+      {segments.map((path, i) => (
+        <path key={i} d={path} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      ))}
+      {valid.map((point) => (
+        <circle key={point.x} cx={scaleX(point.x)} cy={scaleY(point.y)} r={3} fill="#60a5fa">
+          <title>{`${formatX(point.x)}: ${point.y.toFixed(2)}${unit ? ` ${unit}` : ''}`}</title>
+        </circle>
+      ))}
+
+      {highlighted && (
+        <g>
+          <line x1={scaleX(highlighted.x)} x2={scaleX(highlighted.x)} y1={MARGIN.top} y2={MARGIN.top + innerHeight} stroke="white" strokeDasharray="3 3" />
+          {highlighted.y !== null && <circle cx={scaleX(highlighted.x)} cy={scaleY(highlighted.y)} r={5} fill="white" />}
+        </g>
+      )}
+
+      {onHover && (
+        <rect
+          x={MARGIN.left}
+          y={MARGIN.top}
+          width={innerWidth}
+          height={innerHeight}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => onHover(null)}
+        />
+      )}
+    </svg>
+  );
+}
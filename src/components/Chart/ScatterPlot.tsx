@@ -0,0 +1,83 @@
+export interface ScatterPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+interface ScatterPlotProps {
+  points: ScatterPoint[];
+  xLabel: string;
+  yLabel: string;
+  // Least squares fit drawn over the points
+  fit?: { slope: number; intercept: number } | null;
+}
+
+const SIZE = 320;
+const MARGIN = { top: 10, right: 12, bottom: 34, left: 48 };
+const TICKS = 5;
+
+// Square scatter plot on shared axes, with the 1:1 line for comparing two measures of the same quantity
+export function ScatterPlot({ points, xLabel, yLabel, fit }: ScatterPlotProps) {
+  const innerWidth = SIZE - MARGIN.left - MARGIN.right;
+  const innerHeight = SIZE - MARGIN.top - MARGIN.bottom;
+  const values = points.flatMap((point) => [point.x, point.y]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(...values, min + 1);
+
+  const scaleX = (x: number) => MARGIN.left + ((x - min) / (max - min)) * innerWidth;
+  const scaleY = (y: number) => MARGIN.top + innerHeight - ((y - min) / (max - min)) * innerHeight;
+  const ticks = Array.from({ length: TICKS }, (_, i) => min + ((max - min) * i) / (TICKS - 1));
+  const fitAt = (x: number) => (fit ? fit.intercept + fit.slope * x : 0);
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto text-white">
+      <defs>
+        <clipPath id="scatter-plot-area">
+          <rect x={MARGIN.left} y={MARGIN.top} width={innerWidth} height={innerHeight} />
+        </clipPath>
+      </defs>
+
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={SIZE - MARGIN.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="currentColor" strokeOpacity={0.15} />
+          <text x={MARGIN.left - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="currentColor">
+            {tick.toFixed(1)}
+          </text>
+          <text x={scaleX(tick)} y={MARGIN.top + innerHeight + 14} textAnchor="middle" fontSize={10} fill="currentColor">
+            {tick.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      <text x={MARGIN.left + innerWidth / 2} y={SIZE - 4} textAnchor="middle" fontSize={10} fill="currentColor">
+        {xLabel}
+      </text>
+      <text
+        x={10}
+        y={MARGIN.top + innerHeight / 2}
+        textAnchor="middle"
+        fontSize={10}
+        fill="currentColor"
+        transform={`rotate(-90 10 ${MARGIN.top + innerHeight / 2})`}
+      >
+        {yLabel}
+      </text>
+
+      <g clipPath="url(#scatter-plot-area)">
+        <line x1={scaleX(min)} y1={scaleY(min)} x2={scaleX(max)} y2={scaleY(max)} stroke="currentColor" strokeOpacity={0.5} strokeDasharray="4 4">
+          <title>1:1</title>
+        </line>
+        {fit && (
+          <line x1={scaleX(min)} y1={scaleY(fitAt(min))} x2={scaleX(max)} y2={scaleY(fitAt(max))} stroke="#f97316" strokeWidth={1.5}>
+            <title>{`y = ${fit.slope.toFixed(2)}x ${fit.intercept < 0 ? '−' : '+'} ${Math.abs(fit.intercept).toFixed(2)}`}</title>
+          </line>
+        )}
+      </g>
+
+      {points.map((point, i) => (
+        <circle key={i} cx={scaleX(point.x)} cy={scaleY(point.y)} r={4} fill="#60a5fa" fillOpacity={0.8} stroke="white" strokeWidth={0.5}>
+          <title>{`${point.label ? `${point.label}: ` : ''}${point.x.toFixed(2)} / ${point.y.toFixed(2)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,33 @@
+import type { ChartPoint } from './BandedLineChart';
+
+interface SparklineProps {
+  points: ChartPoint[];
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+// Axis-free trend line; null values are skipped rather than breaking the line
+export function Sparkline({ points, color = '#60a5fa', width = 120, height = 32 }: SparklineProps) {
+  const valid = points.filter((point) => point.y !== null) as { x: number; y: number }[];
+  if (valid.length < 2) {
+    return <div className="text-xs text-gray-400 italic" style={{ width }}>Not enough data</div>;
+  }
+
+  const xMin = valid[0].x;
+  const xMax = valid[valid.length - 1].x;
+  const ys = valid.map((point) => point.y);
+  const yMin = Math.min(...ys);
+  const yMax = Math.max(...ys);
+  const scaleX = (x: number) => 2 + (xMax === xMin ? 0 : ((x - xMin) / (xMax - xMin)) * (width - 4));
+  const scaleY = (y: number) => height - 2 - (yMax === yMin ? (height - 4) / 2 : ((y - yMin) / (yMax - yMin)) * (height - 4));
+  const path = valid.map((point, i) => `${i === 0 ? 'M' : 'L'}${scaleX(point.x)},${scaleY(point.y)}`).join(' ');
+  const last = valid[valid.length - 1];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+      <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+      <circle cx={scaleX(last.x)} cy={scaleY(last.y)} r={2.5} fill={color} />
+    </svg>
+  );
+}
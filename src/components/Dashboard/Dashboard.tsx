@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { MapPin, RefreshCw, X } from 'lucide-react';
+import { Sparkline } from '../Chart/Sparkline';
+import { measureArea } from '../../lib/areaStats';
+import { createRequestQueue, RequestQueue } from '../../lib/concurrency';
+import { AreaSummary, DASHBOARD_WINDOW_DAYS, fetchAreaSummary } from '../../lib/dashboard';
+import type { SavedArea } from '../../lib/savedAreas';
+import { classify, ClassificationProfile } from '../../lib/waterQuality';
+
+export interface DashboardIndicator {
+  name: string;
+  layer: string;
+  unit?: string;
+}
+
+interface DashboardProps {
+  areas: SavedArea[];
+  profile: ClassificationProfile;
+  wmsUrl: string;
+  sceneTypename?: string;
+  indicators: DashboardIndicator[];
+  onOpenArea: (area: SavedArea, layer: string) => void;
+  onClose: () => void;
+}
+
+interface IndicatorRowProps {
+  area: SavedArea;
+  indicator: DashboardIndicator;
+  wmsUrl: string;
+  sceneTypename?: string;
+  profile: ClassificationProfile;
+  refreshKey: number;
+  queue: RequestQueue;
+  onOpen: () => void;
+}
+
+// Summaries loaded at once across all areas; each one already queries its acquisitions in parallel
+const SUMMARY_CONCURRENCY = 2;
+// Start loading rows a little before they scroll into view
+const LOAD_MARGIN = '200px';
+
+const formatDate = (date: string | null) => (date ? format(parseISO(date), 'd MMM yyyy') : '—');
+
+function IndicatorRow({ area, indicator, wmsUrl, sceneTypename, profile, refreshKey, queue, onOpen }: IndicatorRowProps) {
+  const rowRef = useRef<HTMLTableRowElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [summary, setSummary] = useState<AreaSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const row = rowRef.current;
+    if (!row || isVisible) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true);
+    }, { rootMargin: LOAD_MARGIN });
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    const controller = new AbortController();
+    setSummary(null);
+    setError(null);
+
+    queue(() => fetchAreaSummary(
+      { url: wmsUrl, layer: indicator.layer, typename: sceneTypename, signal: controller.signal },
+      area.feature
+    ), controller.signal)
+      .then(setSummary)
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading dashboard summary:', err);
+        setError('Could not load values');
+      });
+    return () => controller.abort();
+  }, [isVisible, area, indicator.layer, wmsUrl, sceneTypename, refreshKey, queue]);
+
+  const quality = summary?.latest ? classify(summary.latest.value, profile.parameters[indicator.layer]) : null;
+
+  return (
+    <tr ref={rowRef} className="border-t border-gray-700">
+      <td className="py-2 pr-4 font-semibold">{indicator.name}</td>
+      {error ? (
+        <td colSpan={4} className="py-2 pr-4 text-yellow-400 italic">{error}</td>
+      ) : !summary ? (
+        <td colSpan={4} className="py-2 pr-4 text-gray-400 italic">Loading…</td>
+      ) : (
+        <>
+          <td className="py-2 pr-4 whitespace-nowrap">
+            {summary.latest
+              ? `${summary.latest.value.toFixed(2)}${indicator.unit ? ` ${indicator.unit}` : ''}`
+              : '—'}
+          </td>
+          <td className="py-2 pr-4">
+            {quality ? (
+              <span className="px-2 py-0.5 rounded-full text-xs font-semibold" style={{ backgroundColor: quality.color }}>
+                {quality.label}
+              </span>
+            ) : (
+              <span className="text-gray-400">—</span>
+            )}
+          </td>
+          <td className="py-2 pr-4">
+            <Sparkline
+              points={summary.series.map((point) => ({ x: parseISO(point.date).getTime(), y: point.value }))}
+              color={quality?.color}
+            />
+          </td>
+          <td className="py-2 pr-4 whitespace-nowrap">{formatDate(summary.lastAcquisition)}</td>
+        </>
+      )}
+      <td className="py-2 text-right">
+        <button
+          onClick={onOpen}
+          className="inline-flex items-center gap-1 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+          title={`Show ${indicator.name} for ${area.name} on the map`}
+        >
+          <MapPin className="w-4 h-4" /> Map
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export function Dashboard({ areas, profile, wmsUrl, sceneTypename, indicators, onOpenArea, onClose }: DashboardProps) {
+  const [refreshKey, setRefreshKey] = useState(0);
+  // One queue for every row so a long list of areas doesn't flood the WMS
+  const [queue] = useState(() => createRequestQueue(SUMMARY_CONCURRENCY));
+
+  return (
+    <div className="absolute inset-0 z-[2000] bg-gray-900 text-white overflow-y-auto p-6">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-4 max-w-5xl mx-auto">
+        <div>
+          <h2 className="font-bold text-2xl">Dashboard</h2>
+          <p className="text-sm text-gray-400">
+            Area means over the last {DASHBOARD_WINDOW_DAYS} days · classified with {profile.name}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setRefreshKey(refreshKey + 1)}
+            className="flex items-center gap-2 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" /> Refresh
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Back to map">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 max-w-5xl mx-auto">
+        {areas.length === 0 && (
+          <div className="text-yellow-400 italic">
+            No saved areas yet. Select a drawn or imported area on the map and save it to monitor it here.
+          </div>
+        )}
+        {areas.map((area) => {
+          const rows = area.indicators.length > 0
+            ? indicators.filter((indicator) => area.indicators.includes(indicator.layer))
+            : indicators;
+          return (
+            <div key={area.id} className="bg-black bg-opacity-40 rounded-xl p-4">
+              <div className="flex items-baseline justify-between gap-4 mb-2">
+                <div>
+                  <h3 className="font-bold text-lg">{area.name}</h3>
+                  {area.description && <p className="text-sm text-gray-300">{area.description}</p>}
+                </div>
+                <span className="text-sm text-gray-400">{(measureArea(area.feature).areaM2 / 10000).toFixed(1)} ha</span>
+              </div>
+              {rows.length === 0 ? (
+                <div className="text-yellow-400 italic text-sm">
+                  The current sensor provides none of this area's indicators
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="pb-1 pr-4 font-normal">Indicator</th>
+                      <th className="pb-1 pr-4 font-normal">Latest</th>
+                      <th className="pb-1 pr-4 font-normal">Status</th>
+                      <th className="pb-1 pr-4 font-normal">Trend</th>
+                      <th className="pb-1 pr-4 font-normal">Last acquisition</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((indicator) => (
+                      <IndicatorRow
+                        key={indicator.layer}
+                        area={area}
+                        indicator={indicator}
+                        wmsUrl={wmsUrl}
+                        sceneTypename={sceneTypename}
+                        profile={profile}
+                        refreshKey={refreshKey}
+                        queue={queue}
+                        onOpen={() => onOpenArea(area, indicator.layer)}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
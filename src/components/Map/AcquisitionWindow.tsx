@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { useMap } from 'react-leaflet';
+import { Calendar } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { fetchAcquisitionDates, formatAcquisitionWindow, formatTimeParam, MAX_SCENES } from '../../lib/acquisitions';
+
+export type SceneStatus =
+  | { state: 'idle' }
+  | { state: 'loading' }
+  | { state: 'ready'; dates: string[]; truncated: boolean }
+  | { state: 'error'; message: string };
+
+interface AcquisitionWindowProps {
+  wmsUrl: string;
+  sceneTypename?: string;
+  dateRange?: DateRange;
+  active: boolean;
+  onStatusChange?: (status: SceneStatus) => void;
+}
+
+// Shows the selected acquisition window and checks it has scenes over the current view
+export function AcquisitionWindow({ wmsUrl, sceneTypename, dateRange, active, onStatusChange }: AcquisitionWindowProps) {
+  const map = useMap();
+  const [status, setStatus] = useState<SceneStatus>({ state: 'idle' });
+  const [viewVersion, setViewVersion] = useState(0);
+  const time = formatTimeParam(dateRange);
+
+  useEffect(() => {
+    const handleMoveEnd = () => setViewVersion((version) => version + 1);
+    map.on('moveend', handleMoveEnd);
+    return () => {
+      map.off('moveend', handleMoveEnd);
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (!active || !time) {
+      setStatus({ state: 'idle' });
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus({ state: 'loading' });
+    fetchAcquisitionDates(wmsUrl, { bounds: map.getBounds(), time, typename: sceneTypename, signal: controller.signal })
+      .then(({ dates, truncated }) => setStatus({ state: 'ready', dates, truncated }))
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching acquisitions:', error);
+        setStatus({ state: 'error', message: 'Could not check scene availability' });
+      });
+
+    return () => controller.abort();
+  }, [map, wmsUrl, sceneTypename, time, active, viewVersion]);
+
+  useEffect(() => {
+    onStatusChange?.(status);
+  }, [status, onStatusChange]);
+
+  if (!active) return null;
+
+  const noScenes = status.state === 'ready' && status.dates.length === 0;
+
+  return (
+    <div className="absolute top-28 left-1/2 -translate-x-1/2 z-[1000] bg-black bg-opacity-80 text-white px-4 py-2 rounded-xl text-sm flex items-center gap-2 pointer-events-none">
+      <Calendar className="w-4 h-4" />
+      <span>{formatAcquisitionWindow(dateRange)}</span>
+      {status.state === 'loading' && <span className="text-gray-400">· Checking scenes...</span>}
+      {status.state === 'ready' && !noScenes && (
+        <span className="text-gray-300">
+          · {status.dates.length} {status.dates.length === 1 ? 'acquisition' : 'acquisitions'}, latest {status.dates[status.dates.length - 1]}
+        </span>
+      )}
+      {status.state === 'ready' && status.truncated && (
+        <span className="text-yellow-400">· Over {MAX_SCENES} scenes, some dates may be missing. Try a shorter range.</span>
+      )}
+      {noScenes && (
+        <span className="text-yellow-400">· No scenes in this date range for the current view. Try a wider range.</span>
+      )}
+      {status.state === 'error' && <span className="text-yellow-400">· {status.message}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BarChart3, Bookmark, Flame, LineChart, X } from 'lucide-react';
+import { AreaFeature, AreaStatistics, fetchAreaStatistics, measureArea } from '../../lib/areaStats';
+import { computeClassShares, ParameterScheme } from '../../lib/waterQuality';
+
+interface AreaStatsPanelProps {
+  feature: AreaFeature;
+  // Title of the panel, the feature's own name by default
+  name?: string;
+  wmsUrl: string;
+  layer?: string;
+  indicatorName?: string;
+  unit?: string;
+  time?: string;
+  scheme?: ParameterScheme;
+  onShowTimeSeries?: () => void;
+  onAnalyzeFires?: () => void;
+  onSave?: (name: string) => void;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number | null, unit?: string) =>
+  value === null ? '—' : `${value.toFixed(2)}${unit ? ` ${unit}` : ''}`;
+
+export function AreaStatsPanel({ feature, name = feature.properties?.name, wmsUrl, layer, indicatorName, unit, time, scheme, onShowTimeSeries, onAnalyzeFires, onSave, onClose }: AreaStatsPanelProps) {
+  const [stats, setStats] = useState<AreaStatistics | null>(null);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const measurements = useMemo(() => measureArea(feature), [feature]);
+  // Classified at render so switching profiles doesn't need new samples
+  const classShares = useMemo(() => computeClassShares(stats?.values ?? [], scheme), [stats, scheme]);
+
+  // Results belong to one polygon, layer and date selection
+  useEffect(() => {
+    setStats(null);
+    setError(null);
+    setProgress(null);
+    return () => requestRef.current?.abort();
+  }, [feature, layer, time]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSave || !saveName?.trim()) return;
+    onSave(saveName.trim());
+    setSaveName(null);
+  };
+
+  const handleCompute = async () => {
+    if (!layer) return;
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setError(null);
+    setProgress([0, 0]);
+
+    try {
+      const result = await fetchAreaStatistics(
+        { url: wmsUrl, layer, time, signal: controller.signal },
+        feature,
+        (done, total) => setProgress([done, total])
+      );
+      setStats(result);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error computing area statistics:', err);
+      setError('Could not compute statistics for this area');
+    }
+    setProgress(null);
+  };
+
+  return (
+    <div className="absolute top-28 right-4 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-80 max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg truncate">{name ?? 'Selected area'}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close area statistics">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold min-w-[100px]">Area:</span>
+          <span>{(measurements.areaM2 / 10000).toFixed(2)} ha ({(measurements.areaM2 / 1e6).toFixed(3)} km²)</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="font-semibold min-w-[100px]">Perimeter:</span>
+          <span>{(measurements.perimeterM / 1000).toFixed(2)} km</span>
+        </div>
+      </div>
+
+      {onSave && (saveName === null ? (
+        <button
+          onClick={() => setSaveName(name ?? '')}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 mt-3 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+        >
+          <Bookmark className="w-4 h-4" /> Save to dashboard
+        </button>
+      ) : (
+        <form onSubmit={handleSave} className="flex gap-2 mt-3">
+          <input
+            autoFocus
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Area name"
+            className="flex-1 min-w-0 bg-white bg-opacity-10 rounded-lg px-2 py-1 text-sm outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!saveName.trim()}
+            className="px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button type="button" onClick={() => setSaveName(null)} className="text-gray-400 hover:text-white" aria-label="Cancel">
+            <X className="w-4 h-4" />
+          </button>
+        </form>
+      ))}
+
+      {!layer ? (
+        <div className="text-yellow-400 italic text-sm mt-3">
+          Select a water quality parameter to compute statistics for this area
+        </div>
+      ) : (
+        <div className="mt-3">
+          <button
+            onClick={handleCompute}
+            disabled={progress !== null}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <BarChart3 className="w-4 h-4" />
+            {progress !== null
+              ? `Sampling ${progress[0]}/${progress[1] || '…'}`
+              : `${stats ? 'Recompute' : 'Compute'} ${indicatorName ?? ''} statistics`}
+          </button>
+          {onShowTimeSeries && (
+            <button
+              onClick={onShowTimeSeries}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 mt-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+            >
+              <LineChart className="w-4 h-4" /> Time series of area mean
+            </button>
+          )}
+          {onAnalyzeFires && (
+            <button
+              onClick={onAnalyzeFires}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 mt-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+            >
+              <Flame className="w-4 h-4" /> Fire events in this area
+            </button>
+          )}
+
+          {error && <div className="text-yellow-400 italic text-sm mt-2">{error}</div>}
+
+          {stats && (
+            <div className="flex flex-col gap-2 text-sm mt-3">
+              {stats.validSamples === 0 ? (
+                <div className="text-yellow-400 italic">
+                  No valid pixels in this area for the selected dates (no data or clouds)
+                </div>
+              ) : (
+                <>
+                  {([
+                    ['Mean', stats.mean],
+                    ['Median', stats.median],
+                    ['Min', stats.min],
+                    ['Max', stats.max],
+                    ['P10', stats.p10],
+                    ['P90', stats.p90],
+                  ] as const).map(([label, value]) => (
+                    <div key={label} className="flex items-center gap-2">
+                      <span className="font-semibold min-w-[100px]">{label}:</span>
+                      <span>{formatNumber(value, unit)}</span>
+                    </div>
+                  ))}
+                  {classShares.length > 0 && (
+                    <>
+                      <div className="flex h-3 rounded-full overflow-hidden mt-1">
+                        {classShares.map((qualityClass) => (
+                          <div
+                            key={qualityClass.label}
+                            style={{ width: `${qualityClass.share * 100}%`, backgroundColor: qualityClass.color }}
+                            title={qualityClass.label}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap justify-between gap-x-2 text-xs text-gray-300">
+                        {classShares.map((qualityClass) => (
+                          <span key={qualityClass.label}>{qualityClass.label} {(qualityClass.share * 100).toFixed(0)}%</span>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+              <div className="flex items-center gap-2">
+                <span className="font-semibold min-w-[100px]">Coverage:</span>
+                <span>
+                  {(stats.coverage * 100).toFixed(0)}% valid ({stats.validSamples}/{stats.samples} samples)
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useId, useState } from 'react';
+import { ColorStop, interpolateColor, niceTicks, positionOfValue, valueAtPosition } from '../../lib/legend';
+
+interface ColorRampLegendProps {
+  stops: ColorStop[];
+  unit?: string;
+}
+
+const WIDTH = 90;
+const HEIGHT = 140;
+const RAMP_WIDTH = 16;
+const PADDING = 6;
+
+// Vertical color ramp with the highest value on top; hovering reads the value under the cursor
+export function ColorRampLegend({ stops, unit }: ColorRampLegendProps) {
+  const gradientId = useId();
+  const [hoverValue, setHoverValue] = useState<number | null>(null);
+  const innerHeight = HEIGHT - PADDING * 2;
+  const scaleY = (value: number) => PADDING + innerHeight * (1 - positionOfValue(stops, value));
+  const ticks = niceTicks(stops[0].value, stops[stops.length - 1].value);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverValue(valueAtPosition(stops, 1 - (e.clientY - rect.top) / rect.height));
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <svg width={WIDTH} height={HEIGHT} className="text-white">
+        <defs>
+          <linearGradient id={gradientId} x1="0" y1="1" x2="0" y2="0">
+            {stops.map((stop) => (
+              <stop key={stop.value} offset={positionOfValue(stops, stop.value)} stopColor={stop.color} />
+            ))}
+          </linearGradient>
+        </defs>
+        <rect x={0} y={PADDING} width={RAMP_WIDTH} height={innerHeight} rx={4} fill={`url(#${gradientId})`} />
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={RAMP_WIDTH} x2={RAMP_WIDTH + 4} y1={scaleY(tick)} y2={scaleY(tick)} stroke="currentColor" />
+            <text x={RAMP_WIDTH + 7} y={scaleY(tick)} fontSize={10} fill="currentColor" dominantBaseline="middle">
+              {tick}
+            </text>
+          </g>
+        ))}
+        {hoverValue !== null && (
+          <line x1={0} x2={RAMP_WIDTH + 2} y1={scaleY(hoverValue)} y2={scaleY(hoverValue)} stroke="white" strokeWidth={2} />
+        )}
+        <rect
+          x={0}
+          y={PADDING}
+          width={RAMP_WIDTH}
+          height={innerHeight}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverValue(null)}
+        />
+      </svg>
+      <div className="flex items-center gap-1 text-xs h-4">
+        {hoverValue !== null ? (
+          <>
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: interpolateColor(stops, hoverValue) }}></span>
+            ≈ {hoverValue.toFixed(2)} {unit}
+          </>
+        ) : (
+          <span className="text-gray-300">{unit}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Calendar, Columns2, SplitSquareHorizontal, X } from 'lucide-react';
+import { DayPicker, DateRange } from 'react-day-picker';
+import { formatAcquisitionWindow } from '../../lib/acquisitions';
+
+export type CompareMode = 'swipe' | 'split';
+
+interface CompareOption {
+  name: string;
+}
+
+interface ComparePanelProps<T extends CompareOption> {
+  mode: CompareMode;
+  leftLabel: string;
+  options: T[];
+  rightIndicator: T;
+  rightDateRange?: DateRange;
+  onModeChange: (mode: CompareMode) => void;
+  onRightIndicatorChange: (indicator: T) => void;
+  onRightDateRangeChange: (range?: DateRange) => void;
+  onClose: () => void;
+}
+
+export function ComparePanel<T extends CompareOption>({
+  mode,
+  leftLabel,
+  options,
+  rightIndicator,
+  rightDateRange,
+  onModeChange,
+  onRightIndicatorChange,
+  onRightDateRangeChange,
+  onClose,
+}: ComparePanelProps<T>) {
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  return (
+    <div className="absolute top-40 left-1/2 -translate-x-1/2 z-[1000] bg-black bg-opacity-80 text-white p-4 rounded-xl w-[420px] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Compare</h3>
+        <div className="flex items-center gap-2">
+          {([
+            ['swipe', SplitSquareHorizontal, 'Swipe'],
+            ['split', Columns2, 'Side by side'],
+          ] as const).map(([value, Icon, label]) => (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              className={`flex items-center gap-1 px-2 py-1 text-sm rounded-lg transition-colors ${
+                mode === value ? 'bg-blue-500' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+              }`}
+            >
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close compare mode">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold min-w-[60px]">Left:</span>
+          <span className="text-gray-300 truncate">{leftLabel}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="font-semibold min-w-[60px]">Right:</span>
+          <select
+            value={rightIndicator.name}
+            onChange={(e) => {
+              const indicator = options.find((option) => option.name === e.target.value);
+              if (indicator) onRightIndicatorChange(indicator);
+            }}
+            className="flex-1 bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+          >
+            {options.map((option) => (
+              <option key={option.name} value={option.name} className="text-black">
+                {option.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowDatePicker(!showDatePicker)}
+            className="flex items-center gap-1 px-2 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors whitespace-nowrap"
+          >
+            <Calendar className="w-4 h-4" /> {formatAcquisitionWindow(rightDateRange)}
+          </button>
+        </div>
+        {showDatePicker && (
+          <div className="flex flex-col items-center">
+            <DayPicker
+              mode="range"
+              selected={rightDateRange}
+              onSelect={onRightDateRangeChange}
+              numberOfMonths={1}
+              defaultMonth={rightDateRange?.from ?? new Date()}
+              disabled={{ after: new Date() }}
+              className="bg-transparent text-white"
+              modifiersStyles={{
+                selected: {
+                  backgroundColor: '#a16207'
+                }
+              }}
+              showOutsideDays
+              fixedWeeks
+            />
+            {rightDateRange && (
+              <button
+                className="px-3 py-1 text-sm text-gray-300 hover:text-white"
+                onClick={() => onRightDateRangeChange(undefined)}
+              >
+                Clear dates (latest imagery)
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
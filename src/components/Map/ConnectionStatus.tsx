@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { Wifi, WifiOff } from 'lucide-react';
+import { subscribeToTileSource, TileSource } from '../../lib/offline';
+
+// Whether the map is showing live tiles or ones saved for offline use
+export function ConnectionStatus() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [source, setSource] = useState<TileSource | null>(null);
+
+  useEffect(() => subscribeToTileSource(setSource), []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const label = source === 'missing'
+    ? 'Some tiles are not available offline'
+    : source === 'cache'
+      ? isOnline ? 'Showing cached tiles' : 'Offline · cached tiles'
+      : isOnline ? 'Live' : 'Offline';
+  const color = source === 'missing' || (!isOnline && source !== 'cache')
+    ? 'text-red-400'
+    : source === 'cache' ? 'text-yellow-400' : 'text-green-400';
+
+  return (
+    <div className="bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg flex items-center gap-1">
+      {isOnline ? <Wifi className={`w-3 h-3 ${color}`} /> : <WifiOff className={`w-3 h-3 ${color}`} />}
+      {label}
+    </div>
+  );
+}
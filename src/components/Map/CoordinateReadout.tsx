@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import L from 'leaflet';
+import { CoordinateFormat, formatCoordinates } from '../../lib/measure';
+
+interface CoordinateReadoutProps {
+  map: L.Map;
+}
+
+const FORMAT_KEY = 'orber.coordinateFormat';
+
+const FORMATS: { value: CoordinateFormat; label: string }[] = [
+  { value: 'dd', label: 'DD' },
+  { value: 'dms', label: 'DMS' },
+  { value: 'utm', label: 'UTM' },
+];
+
+const loadFormat = (): CoordinateFormat => {
+  const stored = localStorage.getItem(FORMAT_KEY);
+  return FORMATS.some(({ value }) => value === stored) ? (stored as CoordinateFormat) : 'dd';
+};
+
+// Position under the cursor in the chosen notation
+export function CoordinateReadout({ map }: CoordinateReadoutProps) {
+  const [latlng, setLatlng] = useState<L.LatLng | null>(null);
+  const [format, setFormat] = useState(loadFormat);
+
+  useEffect(() => {
+    localStorage.setItem(FORMAT_KEY, format);
+  }, [format]);
+
+  useEffect(() => {
+    const handleMouseMove = (e: L.LeafletMouseEvent) => setLatlng(e.latlng.wrap());
+    const handleMouseOut = () => setLatlng(null);
+    map.on('mousemove', handleMouseMove);
+    map.on('mouseout', handleMouseOut);
+    return () => {
+      map.off('mousemove', handleMouseMove);
+      map.off('mouseout', handleMouseOut);
+    };
+  }, [map]);
+
+  return (
+    <div className="bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg flex items-center gap-2">
+      <span className="font-mono min-w-[13rem]">{latlng ? formatCoordinates(latlng, format) : '—'}</span>
+      <div className="flex gap-1">
+        {FORMATS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setFormat(value)}
+            className={`px-1 rounded transition-colors ${format === value ? 'bg-blue-500' : 'hover:bg-white hover:bg-opacity-20'}`}
+            aria-pressed={format === value}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,93 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet-draw';
 import 'leaflet-draw/dist/leaflet.draw.css';
+import type { FeatureCollection } from 'geojson';
+import { circlePolygon } from '../../lib/measure';
+
+export type DrawTool = 'polygon' | 'rectangle' | 'circle' | 'polyline' | 'marker';
+
+// What the tool palette can do with the shape being drawn
+export interface DrawActions {
+  finish?: () => void;
+  undo?: () => void;
+  cancel: () => void;
+}
 
 interface DrawControlProps {
   position?: L.ControlPosition;
-  isDrawing: boolean;
-  onSave: (kml: string) => void;
-  onDrawingComplete: () => void;
+  featureGroup: L.FeatureGroup;
+  tool: DrawTool | null;
+  // Vertices of these layers are snapped to, besides the drawn ones
+  snapLayers?: L.FeatureGroup[];
+  snapping?: boolean;
+  onChange: (features: FeatureCollection) => void;
+  onDrawingComplete: (layer: L.Layer) => void;
+  onDrawStop: () => void;
+  onActionsChange?: (actions: DrawActions | null) => void;
 }
 
-export function DrawControl({ position, isDrawing, onSave, onDrawingComplete }: DrawControlProps) {
+// Distance in screen pixels within which a new vertex lands on an existing one
+const SNAP_TOLERANCE_PX = 10;
+
+const createHandler = (map: L.DrawMap, tool: DrawTool) => {
+  // The palette shows the measurements, so leaflet-draw's own tooltips leave them out
+  switch (tool) {
+    case 'polygon':
+      return new L.Draw.Polygon(map, { showArea: false, showLength: false });
+    case 'rectangle':
+      return new L.Draw.Rectangle(map);
+    case 'circle':
+      return new L.Draw.Circle(map, { showRadius: false });
+    case 'polyline':
+      return new L.Draw.Polyline(map, { showLength: false });
+    case 'marker':
+      return new L.Draw.Marker(map);
+  }
+};
+
+const flattenLatLngs = (latlngs: unknown): L.LatLng[] =>
+  Array.isArray(latlngs) ? latlngs.flatMap(flattenLatLngs) : [latlngs as L.LatLng];
+
+const collectVertices = (layer: L.Layer): L.LatLng[] => {
+  if (layer instanceof L.LayerGroup) return layer.getLayers().flatMap(collectVertices);
+  if (layer instanceof L.Polyline) return flattenLatLngs(layer.getLatLngs());
+  if (layer instanceof L.Marker || layer instanceof L.CircleMarker) return [layer.getLatLng()];
+  return [];
+};
+
+export function DrawControl({
+  position,
+  featureGroup: drawnItems,
+  tool,
+  snapLayers,
+  snapping = true,
+  onChange,
+  onDrawingComplete,
+  onDrawStop,
+  onActionsChange,
+}: DrawControlProps) {
   const map = useMap();
+  // Read through a ref so turning snapping on or off keeps the shape being drawn
+  const snappingRef = useRef(snapping);
+  snappingRef.current = snapping;
+  // Set while one of the palette's tools is drawing
+  const handlerRef = useRef<L.Draw.Feature | null>(null);
 
   useEffect(() => {
-    // Initialize draw controls
-    const drawnItems = new L.FeatureGroup();
     map.addLayer(drawnItems);
+    return () => {
+      map.removeLayer(drawnItems);
+    };
+  }, [map, drawnItems]);
 
+  useEffect(() => {
+    // Shapes are started from the tool palette, the toolbar only edits and deletes them
     const drawControl = new L.Control.Draw({
       position: position || 'topleft',
       draw: {
-        polygon: isDrawing,
+        polygon: false,
         polyline: false,
         circle: false,
         rectangle: false,
@@ -36,19 +101,91 @@ export function DrawControl({ position, isDrawing, onSave, onDrawingComplete }:
 
     map.addControl(drawControl);
 
-    map.on(L.Draw.Event.CREATED, (e: any) => {
-      drawnItems.addLayer(e.layer);
-      onDrawingComplete();
-      // Here you would typically convert to KML
-      // For now, just passing a placeholder
-      onSave('<kml>Placeholder KML content</kml>');
-    });
+    const emitChange = () => {
+      onChange(drawnItems.toGeoJSON() as FeatureCollection);
+    };
+
+    const handleCreated = (e: L.LeafletEvent) => {
+      // Shapes drawn for other purposes, like transects, aren't areas
+      if (!handlerRef.current) return;
+      const created = (e as L.DrawEvents.Created).layer;
+      // Circles are kept as polygons so they can be analysed, exported and shared like other areas
+      const layer = created instanceof L.Circle
+        ? L.polygon(L.GeoJSON.coordsToLatLngs(circlePolygon(created.getLatLng(), created.getRadius()).geometry.coordinates[0]))
+        : created;
+      drawnItems.addLayer(layer);
+      emitChange();
+      onDrawingComplete(layer);
+    };
+
+    map.on(L.Draw.Event.CREATED, handleCreated);
+    map.on(L.Draw.Event.EDITED, emitChange);
+    map.on(L.Draw.Event.DELETED, emitChange);
 
     return () => {
+      map.off(L.Draw.Event.CREATED, handleCreated);
+      map.off(L.Draw.Event.EDITED, emitChange);
+      map.off(L.Draw.Event.DELETED, emitChange);
       map.removeControl(drawControl);
-      map.removeLayer(drawnItems);
     };
-  }, [map, isDrawing, onSave, onDrawingComplete]);
+  }, [map, drawnItems, position, onChange, onDrawingComplete]);
+
+  useEffect(() => {
+    if (!tool) return;
+    const handler = createHandler(map as L.DrawMap, tool);
+
+    // Escape, finishing the shape and switching tools all end up here
+    const handleStop = () => onDrawStop();
+
+    const snapIndicator = L.circleMarker([0, 0], { radius: 6, color: '#facc15', weight: 2, fillOpacity: 0.3, interactive: false });
+    const findSnapTarget = (latlng: L.LatLng) => {
+      if (!snappingRef.current) return null;
+      const point = map.latLngToContainerPoint(latlng);
+      let nearest: L.LatLng | null = null;
+      let nearestDistance = SNAP_TOLERANCE_PX;
+      for (const vertex of [drawnItems, ...(snapLayers ?? [])].flatMap(collectVertices)) {
+        const distance = map.latLngToContainerPoint(vertex).distanceTo(point);
+        if (distance <= nearestDistance) {
+          nearest = vertex;
+          nearestDistance = distance;
+        }
+      }
+      return nearest;
+    };
+
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      const target = findSnapTarget(e.latlng);
+      if (target) snapIndicator.setLatLng(target).addTo(map);
+      else snapIndicator.remove();
+    };
+
+    if (handler instanceof L.Draw.Polyline) {
+      // Vertices clicked near an existing one take its exact position
+      const addVertex = handler.addVertex.bind(handler);
+      handler.addVertex = (latlng: L.LatLng) => addVertex(findSnapTarget(latlng) ?? latlng);
+      map.on('mousemove', handleMouseMove);
+      onActionsChange?.({
+        finish: () => handler.completeShape(),
+        undo: () => handler.deleteLastVertex(),
+        cancel: () => handler.disable(),
+      });
+    } else {
+      onActionsChange?.({ cancel: () => handler.disable() });
+    }
+
+    map.on(L.Draw.Event.DRAWSTOP, handleStop);
+    handlerRef.current = handler;
+    handler.enable();
+
+    return () => {
+      map.off(L.Draw.Event.DRAWSTOP, handleStop);
+      map.off('mousemove', handleMouseMove);
+      snapIndicator.remove();
+      handler.disable();
+      handlerRef.current = null;
+      onActionsChange?.(null);
+    };
+  }, [map, tool, drawnItems, snapLayers, onDrawStop, onActionsChange]);
 
   return null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Check, Circle, MapPin, Pentagon, Spline, Square, Undo2, X } from 'lucide-react';
+import type { DrawActions, DrawTool } from './DrawControl';
+import {
+  AREA_UNITS,
+  AreaUnit,
+  formatArea,
+  formatLength,
+  LENGTH_UNITS,
+  LengthUnit,
+  measureCircle,
+  measurePath,
+  measurePolygon,
+  Measurement,
+} from '../../lib/measure';
+
+interface DrawPaletteProps {
+  map: L.Map;
+  tool: DrawTool | null;
+  actions: DrawActions | null;
+  snapping: boolean;
+  onToolChange: (tool: DrawTool | null) => void;
+  onSnappingChange: (snapping: boolean) => void;
+  onClose: () => void;
+}
+
+const UNITS_KEY = 'orber.measureUnits';
+
+const TOOLS: { id: DrawTool; label: string; icon: typeof Pentagon }[] = [
+  { id: 'polygon', label: 'Polygon', icon: Pentagon },
+  { id: 'rectangle', label: 'Rectangle', icon: Square },
+  { id: 'circle', label: 'Circle', icon: Circle },
+  { id: 'polyline', label: 'Line', icon: Spline },
+  { id: 'marker', label: 'Point', icon: MapPin },
+];
+
+const HINTS: Record<DrawTool, string> = {
+  polygon: 'Click to add vertices, click the first one to close',
+  rectangle: 'Drag to draw a rectangle',
+  circle: 'Drag from the center to draw a circle',
+  polyline: 'Click to add points, click the last one to finish',
+  marker: 'Click to place a point',
+};
+
+const loadUnits = (): { length: LengthUnit; area: AreaUnit } => {
+  try {
+    return { length: 'km', area: 'ha', ...JSON.parse(localStorage.getItem(UNITS_KEY) ?? '{}') };
+  } catch {
+    return { length: 'km', area: 'ha' };
+  }
+};
+
+// Measures the finished shape so its readout stays up after drawing
+const measureLayer = (layer: L.Layer): Measurement | null => {
+  if (layer instanceof L.Polygon) return measurePolygon(layer.getLatLngs()[0] as L.LatLng[]);
+  if (layer instanceof L.Polyline) return measurePath(layer.getLatLngs() as L.LatLng[]);
+  return null;
+};
+
+export function DrawPalette({ map, tool, actions, snapping, onToolChange, onSnappingChange, onClose }: DrawPaletteProps) {
+  const [units, setUnits] = useState(loadUnits);
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const verticesRef = useRef<L.LatLng[]>([]);
+  const startRef = useRef<L.LatLng | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(UNITS_KEY, JSON.stringify(units));
+  }, [units]);
+
+  // Follow the shape being drawn from leaflet-draw's events and the cursor
+  useEffect(() => {
+    if (!tool) return;
+    setMeasurement(null);
+    verticesRef.current = [];
+    startRef.current = null;
+
+    const measure = (cursor?: L.LatLng) => {
+      const points = cursor ? [...verticesRef.current, cursor] : verticesRef.current;
+      if (tool === 'polygon') setMeasurement(measurePolygon(points));
+      else if (tool === 'polyline') setMeasurement(measurePath(points));
+      else if (tool === 'circle' && startRef.current && cursor) setMeasurement(measureCircle(startRef.current, cursor));
+      else if (tool === 'rectangle' && startRef.current && cursor) {
+        const start = startRef.current;
+        setMeasurement(measurePolygon([start, L.latLng(start.lat, cursor.lng), cursor, L.latLng(cursor.lat, start.lng)]));
+      }
+    };
+
+    const handleVertex = (e: L.LeafletEvent) => {
+      verticesRef.current = (e as L.DrawEvents.DrawVertex).layers.getLayers().map((marker) => (marker as L.Marker).getLatLng());
+      measure();
+    };
+    const handleMouseDown = (e: L.LeafletMouseEvent) => {
+      if (tool === 'rectangle' || tool === 'circle') startRef.current = e.latlng;
+    };
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      if (verticesRef.current.length > 0 || startRef.current) measure(e.latlng);
+    };
+    const handleCreated = (e: L.LeafletEvent) => {
+      const { layer } = e as L.DrawEvents.Created;
+      // A circle's last live reading is already its final radius
+      if (!(layer instanceof L.Circle)) setMeasurement(measureLayer(layer));
+    };
+
+    map.on(L.Draw.Event.DRAWVERTEX, handleVertex);
+    map.on(L.Draw.Event.CREATED, handleCreated);
+    map.on('mousedown', handleMouseDown);
+    map.on('mousemove', handleMouseMove);
+    return () => {
+      map.off(L.Draw.Event.DRAWVERTEX, handleVertex);
+      map.off(L.Draw.Event.CREATED, handleCreated);
+      map.off('mousedown', handleMouseDown);
+      map.off('mousemove', handleMouseMove);
+    };
+  }, [map, tool]);
+
+  const unitButton = (active: boolean) =>
+    `px-2 py-0.5 rounded-md transition-colors ${active ? 'bg-blue-500 text-white' : 'bg-white bg-opacity-10 hover:bg-opacity-20'}`;
+
+  return (
+    <div className="absolute bottom-4 right-16 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-80">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Draw & measure</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close drawing tools">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-3" role="toolbar" aria-label="Drawing tools">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => onToolChange(tool === id ? null : id)}
+            className={`flex-1 flex flex-col items-center gap-1 py-2 rounded-lg text-xs transition-colors ${
+              tool === id ? 'bg-blue-500 text-white' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+            }`}
+            aria-pressed={tool === id}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-sm mb-3 min-h-[2.5rem]">
+        {measurement?.kind === 'length' && <div>Length <span className="font-semibold">{formatLength(measurement.length, units.length)}</span></div>}
+        {measurement?.kind === 'area' && (
+          <>
+            <div>Area <span className="font-semibold">{formatArea(measurement.area, units.area)}</span></div>
+            <div>Perimeter <span className="font-semibold">{formatLength(measurement.perimeter, units.length)}</span></div>
+          </>
+        )}
+        {measurement?.kind === 'circle' && (
+          <>
+            <div>Radius <span className="font-semibold">{formatLength(measurement.radius, units.length)}</span></div>
+            <div>Area <span className="font-semibold">{formatArea(measurement.area, units.area)}</span></div>
+          </>
+        )}
+        {!measurement && <div className="text-gray-400 italic">{tool ? HINTS[tool] : 'Pick a tool to draw'}</div>}
+      </div>
+
+      {actions && (
+        <div className="flex gap-2 mb-3 text-sm">
+          {actions.finish && (
+            <button onClick={actions.finish} className="flex items-center gap-1 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors">
+              <Check className="w-4 h-4" /> Finish
+            </button>
+          )}
+          {actions.undo && (
+            <button onClick={actions.undo} className="flex items-center gap-1 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors">
+              <Undo2 className="w-4 h-4" /> Undo
+            </button>
+          )}
+          <button onClick={actions.cancel} className="flex items-center gap-1 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors">
+            <X className="w-4 h-4" /> Cancel
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 text-xs text-gray-300">
+        <div className="flex items-center justify-between">
+          <span>Length</span>
+          <div className="flex gap-1">
+            {LENGTH_UNITS.map(({ value, label }) => (
+              <button key={value} onClick={() => setUnits({ ...units, length: value })} className={unitButton(units.length === value)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span>Area</span>
+          <div className="flex gap-1">
+            {AREA_UNITS.map(({ value, label }) => (
+              <button key={value} onClick={() => setUnits({ ...units, area: value })} className={unitButton(units.area === value)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={snapping} onChange={(e) => onSnappingChange(e.target.checked)} />
+          Snap to existing vertices
+        </label>
+      </div>
+    </div>
+  );
+}
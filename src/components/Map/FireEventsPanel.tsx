@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import L from 'leaflet';
+import { Download, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { AreaFeature } from '../../lib/areaStats';
+import { MAX_SCENES } from '../../lib/acquisitions';
+import { exportFireEvents, fetchFireAnalysis, FireAnalysis } from '../../lib/fireEvents';
+import { forestFires } from '../../lib/indicators/forestFires';
+
+interface FireEventsPanelProps {
+  map: L.Map;
+  feature: AreaFeature;
+  wmsUrl: string;
+  sceneTypename?: string;
+  layer: string;
+  time?: string;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+const formatHa = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ha`;
+
+export function FireEventsPanel({ map, feature, wmsUrl, sceneTypename, layer, time, onClose }: FireEventsPanelProps) {
+  const [analysis, setAnalysis] = useState<FireAnalysis | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setAnalysis(null);
+    setError(null);
+    setProgress(null);
+    setSelectedId(null);
+    if (!time) return;
+
+    const controller = new AbortController();
+    setProgress([0, 0]);
+    fetchFireAnalysis({ url: wmsUrl, layer, time, typename: sceneTypename, signal: controller.signal }, feature, (done, total) => setProgress([done, total]))
+      .then((result) => {
+        setAnalysis(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error analyzing fire events:', err);
+        setError('Could not analyze the fire layer in this area');
+        setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [feature, wmsUrl, sceneTypename, layer, time]);
+
+  // Burned areas and hotspots of every event, the selected one drawn bolder
+  useEffect(() => {
+    if (!analysis) return;
+    const [active, burned] = forestFires.classes.map((fireClass) => fireClass.color);
+    const group = L.featureGroup();
+    for (const event of analysis.events) {
+      const isSelected = event.id === selectedId;
+      for (const area of event.burned) {
+        L.geoJSON(area.feature, { style: { color: burned, weight: isSelected ? 3 : 1.5, fillOpacity: isSelected ? 0.45 : 0.25 } })
+          .bindTooltip(`Fire event ${event.id}: ${formatHa(area.areaHa)}`)
+          .on('click', () => setSelectedId(event.id))
+          .addTo(group);
+      }
+      for (const hotspot of event.hotspots) {
+        L.circleMarker([hotspot.lat, hotspot.lng], { radius: isSelected ? 5 : 4, color: '#ffffff', weight: 1, fillColor: active, fillOpacity: 0.9 })
+          .bindTooltip(`Fire event ${event.id}: active on ${formatDate(hotspot.date)}`)
+          .on('click', () => setSelectedId(event.id))
+          .addTo(group);
+      }
+    }
+    group.addTo(map);
+    return () => {
+      group.remove();
+    };
+  }, [map, analysis, selectedId]);
+
+  const selected = analysis?.events.find((event) => event.id === selectedId);
+
+  const handleSelect = (id: number) => {
+    const event = analysis?.events.find((candidate) => candidate.id === id);
+    setSelectedId(id === selectedId ? null : id);
+    if (!event || id === selectedId) return;
+    const bounds = L.latLngBounds([
+      ...event.hotspots.map((hotspot) => L.latLng(hotspot.lat, hotspot.lng)),
+      ...event.burned.flatMap((area) => area.feature.geometry.coordinates[0].map(([lng, lat]) => L.latLng(lat, lng))),
+    ]);
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [80, 80], maxZoom: 15 });
+  };
+
+  const totalHa = analysis?.events.reduce((sum, event) => sum + event.burnedHa, 0) ?? 0;
+  const hasPolygons = analysis?.events.some((event) => event.burned.length > 0) ?? false;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-[640px] max-w-[90vw] max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <div className="min-w-0">
+          <h3 className="font-bold text-lg truncate">Fire events</h3>
+          <div className="text-xs text-gray-300 truncate">{feature.properties?.name ?? 'Selected area'}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          {analysis && hasPolygons && (['geojson', 'kml'] as const).map((exportFormat) => (
+            <button
+              key={exportFormat}
+              onClick={() => exportFireEvents(analysis.events, exportFormat)}
+              className="flex items-center gap-1 text-sm text-gray-300 hover:text-white"
+            >
+              <Download className="w-4 h-4" /> {exportFormat === 'kml' ? 'KML' : 'GeoJSON'}
+            </button>
+          ))}
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close fire events">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!time && <div className="text-yellow-400 italic text-sm">Select a date range to analyze fire events</div>}
+      {progress && (
+        <div className="text-center text-gray-400 py-2 text-sm">
+          {progress[1] > 0 ? `Analyzing acquisition ${progress[0]}/${progress[1]}...` : 'Searching acquisitions...'}
+        </div>
+      )}
+      {error && <div className="text-yellow-400 italic text-sm">{error}</div>}
+      {analysis?.truncated && (
+        <div className="text-yellow-400 italic text-sm mb-2">
+          Over {MAX_SCENES} scenes in this range, some acquisitions were left out. Try a shorter range.
+        </div>
+      )}
+
+      {analysis && analysis.events.length === 0 && (
+        <div className="text-gray-400 italic text-sm">
+          No active fires or burned areas in {analysis.dates.length} {analysis.dates.length === 1 ? 'acquisition' : 'acquisitions'}
+        </div>
+      )}
+      {analysis && analysis.events.length > 0 && (
+        <>
+          <div className="text-sm text-gray-300 mb-2">
+            {analysis.events.length} {analysis.events.length === 1 ? 'event' : 'events'} · {formatHa(totalHa)} burned ·{' '}
+            {analysis.dates.length} {analysis.dates.length === 1 ? 'acquisition' : 'acquisitions'}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-600">
+                <th className="py-1 font-normal">Event</th>
+                <th className="py-1 font-normal">First seen</th>
+                <th className="py-1 font-normal">Last seen</th>
+                <th className="py-1 font-normal text-right">Hotspots</th>
+                <th className="py-1 font-normal text-right">Burned</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.events.map((event) => (
+                <tr
+                  key={event.id}
+                  onClick={() => handleSelect(event.id)}
+                  className={`border-b border-gray-700 cursor-pointer ${
+                    event.id === selectedId ? 'bg-blue-500 bg-opacity-30' : 'hover:bg-white hover:bg-opacity-10'
+                  }`}
+                >
+                  <td className="py-1">#{event.id}</td>
+                  <td className="py-1">{formatDate(event.firstDate)}</td>
+                  <td className="py-1">{formatDate(event.lastDate)}</td>
+                  <td className="py-1 text-right">{event.hotspots.length}</td>
+                  <td className="py-1 text-right">{formatHa(event.burnedHa)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {selected ? (
+            <div className="mt-3">
+              <div className="text-sm font-semibold mb-1">Growth of event #{selected.id}</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-600">
+                    <th className="py-1 font-normal">Date</th>
+                    <th className="py-1 font-normal text-right">Hotspots</th>
+                    <th className="py-1 font-normal text-right">Burned</th>
+                    <th className="py-1 font-normal text-right">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.log.map((entry) => (
+                    <tr key={entry.date} className="border-b border-gray-700">
+                      <td className="py-1">{formatDate(entry.date)}</td>
+                      <td className="py-1 text-right">{entry.hotspots}</td>
+                      <td className="py-1 text-right">{formatHa(entry.burnedHa)}</td>
+                      <td className={`py-1 text-right ${entry.growthHa > 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                        {entry.growthHa > 0 ? '+' : ''}{formatHa(entry.growthHa)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-400 mt-2">Select an event to see how it grew</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { X } from 'lucide-react';
+import type { ImportResult } from '../../lib/featureImport';
+
+interface ImportReportProps {
+  results: ImportResult[];
+  onClose: () => void;
+}
+
+export function ImportReport({ results, onClose }: ImportReportProps) {
+  return (
+    <div className="absolute bottom-4 right-16 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] max-w-sm max-h-80 overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Import</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white"
+          aria-label="Close import report"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="space-y-3">
+        {results.map((result, index) => (
+          <div key={index} className="text-sm">
+            <div className="font-semibold truncate">{result.fileName}</div>
+            <div className="text-gray-300">
+              {result.features.length} {result.features.length === 1 ? 'feature' : 'features'} imported
+            </div>
+            {result.issues.map((issue, issueIndex) => (
+              <div key={issueIndex} className="text-yellow-400 italic">
+                {issue.feature}: {issue.message}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { ColorRampLegend } from './ColorRampLegend';
+import type { ContinuousIndicator, DiscreteIndicator, LegendProps, WMSIndicator } from '../../lib/indicators';
+import { ColorStop, fetchLegendColormap, getLegendGraphicUrl } from '../../lib/legend';
+
+function DiscreteLegend({ indicator }: { indicator: DiscreteIndicator }) {
+  return (
+    <div className="flex flex-col gap-4 mr-4">
+      {indicator.classes.map((indicatorClass) => (
+        <div key={indicatorClass.label} className="flex items-center gap-2">
+          <div className="w-6 h-6 rounded-lg" style={{ backgroundColor: indicatorClass.color }}></div>
+          <span className="text-sm">{indicatorClass.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Ramp the server describes for a layer, null until it answers or when it describes none
+function useLegendColormap(wmsUrl: string, layer: string) {
+  const [stops, setStops] = useState<ColorStop[] | null>(null);
+
+  useEffect(() => {
+    setStops(null);
+    const controller = new AbortController();
+    fetchLegendColormap(wmsUrl, layer, controller.signal)
+      .then(setStops)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching legend colormap:', error);
+      });
+    return () => controller.abort();
+  }, [wmsUrl, layer]);
+
+  return stops;
+}
+
+// The server's ramp matches what is rendered; the declared stops only stand in for it
+function ContinuousLegend({ indicator, wmsUrl }: { indicator: ContinuousIndicator; wmsUrl: string }) {
+  const stops = useLegendColormap(wmsUrl, indicator.layer);
+  return <ColorRampLegend stops={stops ?? indicator.colormap} unit={indicator.unit} />;
+}
+
+// Ramp described by the server when it can, otherwise its legend image
+function WMSLegend({ indicator, wmsUrl }: { indicator: WMSIndicator; wmsUrl: string }) {
+  const stops = useLegendColormap(wmsUrl, indicator.layer);
+  const [hasImageError, setHasImageError] = useState(false);
+
+  useEffect(() => {
+    setHasImageError(false);
+  }, [wmsUrl, indicator.layer]);
+
+  if (stops) return <ColorRampLegend stops={stops} unit={indicator.unit} />;
+  if (hasImageError) return null;
+  return (
+    <img
+      src={indicator.legendUrl ?? getLegendGraphicUrl(wmsUrl, indicator.layer)}
+      alt={`${indicator.name} legend`}
+      className="max-h-32 mr-4 bg-white rounded-lg p-1"
+      onError={() => setHasImageError(true)}
+    />
+  );
+}
+
+// Legend and description of an indicator, using its own legend when it declares one
+export function IndicatorLegend({ indicator, wmsUrl }: LegendProps) {
+  if (indicator.type === 'natural') {
+    return (
+      <div className="flex items-center mb-4">
+        <p className="text-sm">{indicator.description}</p>
+      </div>
+    );
+  }
+
+  const { Legend } = indicator;
+  return (
+    <div className="flex items-center mb-4">
+      {Legend ? (
+        <Legend indicator={indicator} wmsUrl={wmsUrl} />
+      ) : indicator.type === 'discrete' ? (
+        <DiscreteLegend indicator={indicator} />
+      ) : indicator.type === 'wms' ? (
+        <WMSLegend indicator={indicator} wmsUrl={wmsUrl} />
+      ) : (
+        <ContinuousLegend indicator={indicator} wmsUrl={wmsUrl} />
+      )}
+      <p className="flex-1 ml-4">{indicator.description}</p>
+    </div>
+  );
+}
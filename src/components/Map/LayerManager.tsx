@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Plus, Trash2, X } from 'lucide-react';
+import type { LayerIndicator } from '../../lib/indicators';
+import { BASEMAPS, BasemapId, createOverlay, moveOverlay, OverlayLayer } from '../../lib/layers';
+
+interface LayerManagerProps {
+  basemap: BasemapId;
+  overlays: OverlayLayer[];
+  // The indicator selected in the sidebar, which pixel queries and the legend use
+  activeLayer: string;
+  indicators: LayerIndicator[];
+  onBasemapChange: (basemap: BasemapId) => void;
+  onOverlaysChange: (overlays: OverlayLayer[]) => void;
+  onClose: () => void;
+}
+
+export function LayerManager({
+  basemap,
+  overlays,
+  activeLayer,
+  indicators,
+  onBasemapChange,
+  onOverlaysChange,
+  onClose,
+}: LayerManagerProps) {
+  const [layerToAdd, setLayerToAdd] = useState('');
+
+  const nameOf = (layer: string) => indicators.find((indicator) => indicator.layer === layer)?.name ?? layer;
+  const addable = indicators.filter((indicator) => !overlays.some((overlay) => overlay.layer === indicator.layer));
+
+  const update = (index: number, patch: Partial<OverlayLayer>) =>
+    onOverlaysChange(overlays.map((overlay, i) => (i === index ? { ...overlay, ...patch } : overlay)));
+
+  const handleAdd = () => {
+    if (!layerToAdd) return;
+    onOverlaysChange([...overlays, createOverlay(layerToAdd)]);
+    setLayerToAdd('');
+  };
+
+  return (
+    <div className="absolute top-28 left-4 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-80 max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Layers</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close layers">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="text-sm mb-1">Basemap</div>
+      <div className="grid grid-cols-4 gap-1 mb-4 text-xs">
+        {BASEMAPS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onBasemapChange(option.id)}
+            className={`py-1 rounded-lg transition-colors ${
+              option.id === basemap ? 'bg-blue-500 text-white' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+            }`}
+            aria-pressed={option.id === basemap}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-sm mb-1">Overlays</div>
+      <div className="flex flex-col gap-2 text-sm mb-3">
+        {overlays.length === 0 && <div className="text-gray-400 italic">No overlays, select a parameter or add one below</div>}
+        {/* Listed top first, the way they're stacked on the map */}
+        {overlays.map((overlay, index) => ({ overlay, index })).reverse().map(({ overlay, index }) => (
+          <div key={overlay.layer} className="bg-white bg-opacity-10 rounded-lg p-2">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => update(index, { visible: !overlay.visible })}
+                className="text-gray-300 hover:text-white"
+                aria-label={overlay.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {overlay.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              </button>
+              <span className={`flex-1 truncate ${overlay.visible ? '' : 'text-gray-400'}`}>{nameOf(overlay.layer)}</span>
+              {overlay.layer === activeLayer && <span className="text-xs text-blue-300">Selected</span>}
+              <button
+                onClick={() => onOverlaysChange(moveOverlay(overlays, index, 1))}
+                disabled={index === overlays.length - 1}
+                className="text-gray-300 hover:text-white disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onOverlaysChange(moveOverlay(overlays, index, -1))}
+                disabled={index === 0}
+                className="text-gray-300 hover:text-white disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              {overlay.layer !== activeLayer && (
+                <button
+                  onClick={() => onOverlaysChange(overlays.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-red-400"
+                  aria-label="Remove layer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <label className="flex items-center gap-2 mt-1 text-xs text-gray-300">
+              Opacity
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(overlay.opacity * 100)}
+                onChange={(e) => update(index, { opacity: Number(e.target.value) / 100 })}
+                className="flex-1"
+              />
+              <span className="w-8 text-right">{Math.round(overlay.opacity * 100)}%</span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      {addable.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={layerToAdd}
+            onChange={(e) => setLayerToAdd(e.target.value)}
+            className="flex-1 bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+          >
+            <option value="" className="text-black">Add an overlay...</option>
+            {addable.map((indicator) => (
+              <option key={indicator.layer} value={indicator.layer} className="text-black">
+                {indicator.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!layerToAdd}
+            className="flex items-center gap-1 px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" /> Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
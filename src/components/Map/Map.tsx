@@ -2,10 +2,75 @@ import React from 'react';
 import { MapContainer, TileLayer, ZoomControl, WMSTileLayer } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet-draw/dist/leaflet.draw.css';
-import { Menu, Calendar, MapPin, Activity, ChevronLeft, ChevronRight, Search, Bell, X } from 'lucide-react';
+import { Menu, Calendar, MapPin, Activity, ChevronLeft, ChevronRight, Search, Bell, X, Download, Upload, LineChart, SplitSquareHorizontal, Film, Bookmark, Link, FileText, DownloadCloud, Route, Layers, FlaskConical } from 'lucide-react';
 import { DayPicker, DateRange } from 'react-day-picker';
 import 'react-day-picker/dist/style.css';
-import { DrawControl } from './DrawControl';
+import { DrawActions, DrawControl, DrawTool } from './DrawControl';
+import { DrawPalette } from './DrawPalette';
+import { CoordinateReadout } from './CoordinateReadout';
+import { TransectPanel } from './TransectPanel';
+import { LayerManager } from './LayerManager';
+import { ValidationPanel } from './ValidationPanel';
+import { ImportReport } from './ImportReport';
+import { AcquisitionWindow, SceneStatus } from './AcquisitionWindow';
+import { AreaStatsPanel } from './AreaStatsPanel';
+import { TimeSeriesPanel } from './TimeSeriesPanel';
+import { FireEventsPanel } from './FireEventsPanel';
+import { ComparePanel, CompareMode } from './ComparePanel';
+import { SwipeClip, SwipeDivider, SWIPE_LEFT_PANE, SWIPE_RIGHT_PANE } from './SwipeCompare';
+import { MirrorMap } from './MirrorMap';
+import { TimelapseControl } from './TimelapseControl';
+import { SavedAreasPanel } from './SavedAreasPanel';
+import { ReportDialog } from './ReportDialog';
+import { OfflinePanel } from './OfflinePanel';
+import { ConnectionStatus } from './ConnectionStatus';
+import { NotificationDrawer } from './NotificationDrawer';
+import { ProfileSelector } from './ProfileSelector';
+import { SearchBox } from './SearchBox';
+import { IndicatorLegend } from './IndicatorLegend';
+import { QualityBadge } from './QualityBadge';
+import { Dashboard, DashboardIndicator } from '../Dashboard/Dashboard';
+import type { FeatureCollection, Polygon } from 'geojson';
+import { AreaFeature, isSameGeometry } from '../../lib/areaStats';
+import type { TimeSeriesTarget } from '../../lib/timeSeries';
+import { exportFeatures, ExportFormat } from '../../lib/featureExport';
+import { importFeatureFile, ImportResult, IMPORT_ACCEPT } from '../../lib/featureImport';
+import { importSampleFile, isSampleFile, SampleImportResult, SAMPLE_IMPORT_ACCEPT } from '../../lib/insitu';
+import { formatAcquisitionWindow, formatTimeParam } from '../../lib/acquisitions';
+import { format, parseISO } from 'date-fns';
+import { getFeatureInfo } from '../../lib/featureInfo';
+import type { GeocodeResult } from '../../lib/geocoder';
+import { fetchCapabilities, isDateAvailable, WMSCapabilities } from '../../lib/capabilities';
+import { DEFAULT_INDICATOR, findIndicator, hasLayer, Indicator, mergeIndicators } from '../../lib/indicators';
+import { forestFires } from '../../lib/indicators/forestFires';
+import {
+  BUILT_IN_PROFILES,
+  classify,
+  ClassificationProfile,
+  describeClassRanges,
+  loadActiveProfileId,
+  loadCustomProfiles,
+  saveActiveProfileId,
+  saveCustomProfiles,
+  WATER_QUALITY_PARAMETERS
+} from '../../lib/waterQuality';
+import { areaStore, createSavedArea, duplicateArea, SavedArea } from '../../lib/savedAreas';
+import { AlertEvent, countUnread } from '../../lib/alerts';
+import { featuresToPolygons, parseViewState, serializeViewState, ViewState } from '../../lib/urlState';
+import { BasemapId, createOverlay, DEFAULT_BASEMAP, findBasemap, OverlayLayer, syncActiveOverlay } from '../../lib/layers';
+import {
+  ALERT_CHECK_INTERVAL_MS,
+  checkRules,
+  loadAlertEvents,
+  loadAlertRules,
+  saveAlertEvents,
+  saveAlertRules
+} from '../../lib/alertMonitor';
+import { renderMapSnapshot } from '../../lib/mapSnapshot';
+import { downloadBlob } from '../../lib/download';
+import { loadPacks, OfflinePack, savePacks } from '../../lib/offline';
+import { isSensorAvailable, loadSensor, saveSensor, Sensor, SENSORS } from '../../lib/sensors';
+import { AnimationFormat, drawCaption, encodeGif, encodeWebM } from '../../lib/animationExport';
 
 // Fix Leaflet default marker icon issue
 import L from 'leaflet';
@@ -15,16 +80,6 @@ import iconShadow from 'leaflet/dist/images/marker-shadow.png';
 // Add this CSS near the top of your file, after the other imports
 import './leaflet-draw-override.css';
 
-// Add these to your imports at the top
-import { 
-  Droplets, // for Chlorophyll
-  Wind, // for Dissolved Oxygen
-  Container, // for Total Suspended Solids
-  Waves, // for Turbidity
-  Flame, // for Forest Fires
-  Eye // for Natural Color
-} from 'lucide-react';
-
 // Add this import at the top
 import './loader.css';
 
@@ -42,163 +97,114 @@ interface MapProps {
   zoom?: number;
 }
 
-const WMS_URL = 'https://sh.dataspace.copernicus.eu/ogc/wms/fd8fbb51-cfdf-460d-9839-6dc55ee39ffa';
-
-const indicators = [
-  { 
-    name: 'Natural Color',
-    type: 'natural',
-    icon: Eye,
-    description: 'Natural satellite imagery showing Earth as it appears to the human eye. This view helps identify surface features, vegetatNatural color satellite imagery utilizes a combination of visible red, green, and blue bands to create images that closely resemble how the human eye perceives the Earth. This method allows for the effective analysis of land cover, vegetation health, and urban development, providing critical insights into environmental changes and anthropogenic impactsion patterns, and water bodies in their true colors.',
-    quote: '"Natural satellite imagery showing Earth as it appears to the human eye. This view helps identify surface features, vegetation patterns, and water bodies in their true colors'
-  },
-  { 
-    name: 'Chlorophyll-a',
-    icon: Droplets,
-    color: 'from-green-500 to-red-500',
-    layer: 'CHLA',
-    description: 'Chlorophyll-a is the primary photosynthetic pigment found in all plants and algae. High concentrations in water bodies indicate algal blooms, which can affect water quality and ecosystem health. Regular monitoring helps identify potential eutrophication issues and assess the overall health of aquatic ecosystems.',
-    unit: 'mg/m³',
-    quote: 'Reference: Gitelson, A. A., et al. (2008). "A simple semi-analytical model for remote estimation of chlorophyll-a in turbid waters." Remote Sensing of Environment, 112(9), 3582-3593.'
-  },
-  { 
-    name: 'Dissolved Oxygen',
-    icon: Wind,
-    color: 'from-red-500 to-green-500',
-    layer: 'DISSOLVED-OXYGEN',
-    description: 'Dissolved oxygen (DO) is essential for aquatic life and ecosystem health. Low DO levels can stress or kill fish and other organisms. Levels are affected by temperature, atmospheric pressure, biological activity, and water movement. Healthy water bodies typically maintain DO levels between 6-10 mg/L.',
-    unit: 'mg/L',
-    quote: 'Reference: Diaz, R. J., & Rosenberg, R. (2008). "Spreading dead zones and consequences for marine ecosystems." Science, 321(5891), 926-929.'
-  },
-  { 
-    name: 'Total Suspended Solids',
-    icon: Container,
-    color: 'from-yellow-400 to-purple-600',
-    layer: 'TOTAL-SUSPENDED-SOLIDS',
-    description: 'Total Suspended Solids (TSS) measures particles suspended in water, including sediment, algae, and organic matter. High TSS levels can reduce water clarity, affect aquatic life, and indicate pollution or erosion. It\'s a key indicator of water quality and can impact ecosystem functioning and recreational water use.',
-    unit: 'mg/L',
-    quote: 'Reference: Ritchie, J. C., et al. (2003). "Remote sensing techniques to assess water quality." Photogrammetric Engineering & Remote Sensing, 69(6), 695-704.'
-  },
-  { 
-    name: 'Turbidity',
-    icon: Waves,
-    color: 'from-yellow-800 to-purple-900',
-    layer: 'TURBIDITY',
-    description: 'Turbidity measures water clarity and how much light can penetrate through water. It\'s affected by suspended particles like clay, silt, organic matter, and microorganisms. High turbidity can harm aquatic life by reducing light penetration, increasing water temperature, and decreasing dissolved oxygen levels. It\'s also an important indicator for drinking water quality.',
-    unit: 'NTU',
-    quote: 'Reference: Kirk, J. T. O. (1994). "Light and photosynthesis in aquatic ecosystems." Cambridge University Press, 3rd Edition.'
-  },
-  { 
-    name: 'Forest Fires',
-    icon: Flame,
-    type: 'discrete',
-    indicators: [
-      { color: 'bg-red-600', label: 'Active Fires' },
-      { color: 'bg-yellow-500', label: 'Burned Areas' }
-    ],
-    layer: 'INCENDIOS-FORESTALES',
-    description: 'Satellite-based monitoring of forest fires. Red indicators show currently active fires, while yellow areas represent recently burned zones. This information is crucial for emergency response and forest management.',
-    quote: 'Reference: Giglio, L., et al. (2016). "Active fire detection and characterization with the MODIS sensor." Remote Sensing of Environment, 178, 31-41.'
-  }
-];
-
-// Update the WMS_RANGES constant with more precise ranges
-const WMS_RANGES = {
-  'CHLA': {
-    min: 0,
-    mid: 5,
-    max: 10,
-    unit: 'mg/m³'
-  },
-  'DISSOLVED-OXYGEN': {
-    min: 0,
-    mid: 7,
-    max: 14,
-    unit: 'mg/L'
-  },
-  'TOTAL-SUSPENDED-SOLIDS': {
-    min: 0,
-    mid: 50,
-    max: 100,
-    unit: 'mg/L'
-  },
-  'TURBIDITY': {
-    min: 0,
-    mid: 25,
-    max: 50,
-    unit: 'NTU'
-  }
-};
-
-// Add this function to fetch the actual ranges
-const fetchWMSCapabilities = async () => {
-  const url = `${WMS_URL}?SERVICE=WMS&REQUEST=GetCapabilities&VERSION=1.3.0`;
-  try {
-    const response = await fetch(url);
-    const text = await response.text();
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(text, "text/xml");
-    // Parse the XML to get the ranges for each layer
-    // You'll need to adapt this based on the actual XML structure
-    console.log(xmlDoc);
-  } catch (error) {
-    console.error('Error fetching WMS capabilities:', error);
-  }
-};
+// Overlays stack above the basemap in their order in the layer manager
+const OVERLAY_Z_INDEX = 10;
+// Frames kept loading ahead of the one shown during time-lapse playback
+const TIMELAPSE_PRELOAD = 3;
+const TIMELAPSE_FRAME_MS = 1000;
+const DASHBOARD_HASH = '#dashboard';
+const SAVED_AREA_STYLE: L.PathOptions = { color: '#f97316', weight: 2, dashArray: '6 4', fillOpacity: 0.05 };
+const SAMPLE_MARKER_STYLE: L.CircleMarkerOptions = { radius: 6, color: '#ffffff', weight: 2, fillColor: '#14b8a6', fillOpacity: 0.9 };
+
+const toDateRange = (view: ViewState): DateRange | undefined =>
+  view.from ? { from: parseISO(view.from), to: parseISO(view.to ?? view.from) } : undefined;
+
+const findSensor = (id?: string) => SENSORS.filter(isSensorAvailable).find((sensor) => sensor.id === id);
+
+// A saved area is selected by its id so it survives the saved areas layer being rebuilt
+type AreaSelection = { savedAreaId: string } | { layerId: number };
 
 // Add these new interfaces
-interface PixelInfo {
+interface PixelReading {
   value: number | null;
-  quality: 'Good' | 'Medium' | 'Poor' | 'Unknown';
-  coordinates: [number, number];
   message?: string;
 }
 
-interface WaterQualityRanges {
-  good: [number, number];
-  medium: [number, number];
-  poor: [number, number];
+interface PixelInfo extends PixelReading {
+  coordinates: [number, number];
+  // Readings of both sides while comparing
+  compare?: {
+    left: PixelReading & { label: string; layer: string };
+    right: PixelReading & { label: string; layer: string };
+  };
 }
 
-// Add water quality ranges for each parameter
-const WATER_QUALITY_RANGES: Record<string, WaterQualityRanges> = {
-  'CHLA': {
-    good: [0, 2.5],
-    medium: [2.5, 7],
-    poor: [7, 10]
-  },
-  'DISSOLVED-OXYGEN': {
-    good: [8, 14],
-    medium: [5, 8],
-    poor: [0, 5]
-  },
-  'TOTAL-SUSPENDED-SOLIDS': {
-    good: [0, 30],
-    medium: [30, 70],
-    poor: [70, 100]
-  },
-  'TURBIDITY': {
-    good: [0, 15],
-    medium: [15, 35],
-    poor: [35, 50]
-  }
-};
-
 export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
+  // View encoded in the link the page was opened with
+  const [initialView] = React.useState(() => parseViewState(window.location.search));
   const [isPanelVisible, setIsPanelVisible] = React.useState(true);
-  const [selectedIndicator, setSelectedIndicator] = React.useState<any>(indicators[0]);
+  const [selectedIndicator, setSelectedIndicator] = React.useState<Indicator>(() => findIndicator(initialView.layer) ?? DEFAULT_INDICATOR);
   const [showDatePicker, setShowDatePicker] = React.useState(false);
   const [showSensorMenu, setShowSensorMenu] = React.useState(false);
-  const [dateRange, setDateRange] = React.useState<DateRange | undefined>();
-  const [isDrawing, setIsDrawing] = React.useState(false);
-  const [selectedLayer, setSelectedLayer] = React.useState<string>('');
+  const [sensor, setSensor] = React.useState(() => findSensor(initialView.sensor) ?? loadSensor());
+  const [dateRange, setDateRange] = React.useState<DateRange | undefined>(() => toDateRange(initialView));
+  const [dateMode, setDateMode] = React.useState<'range' | 'single'>(initialView.from && initialView.from === initialView.to ? 'single' : 'range');
+  const [sceneStatus, setSceneStatus] = React.useState<SceneStatus>({ state: 'idle' });
+  const [showDrawPalette, setShowDrawPalette] = React.useState(false);
+  const [drawTool, setDrawTool] = React.useState<DrawTool | null>(null);
+  const [drawActions, setDrawActions] = React.useState<DrawActions | null>(null);
+  const [isSnapping, setIsSnapping] = React.useState(true);
+  const [selectedLayer, setSelectedLayer] = React.useState<string>(() => findIndicator(initialView.layer)?.layer ?? '');
   const [isLoading, setIsLoading] = React.useState(false);
   const [showSearch, setShowSearch] = React.useState(false);
-  const [searchQuery, setSearchQuery] = React.useState('');
-  const [searchResults, setSearchResults] = React.useState<SearchResult[]>([]);
-  const [isSearching, setIsSearching] = React.useState(false);
   const mapRef = React.useRef<L.Map | null>(null);
   const [pixelInfo, setPixelInfo] = React.useState<PixelInfo | null>(null);
+  const [drawnFeatures, setDrawnFeatures] = React.useState<FeatureCollection | null>(null);
+  const [showExportDialog, setShowExportDialog] = React.useState(false);
+  // Owned here so imported features land in the same editable group as drawn ones
+  const [drawnItems] = React.useState(() => new L.FeatureGroup());
+  const [importResults, setImportResults] = React.useState<ImportResult[]>([]);
+  const [sampleImports, setSampleImports] = React.useState<SampleImportResult[]>([]);
+  const [showValidation, setShowValidation] = React.useState(false);
+  const [sampleLayer] = React.useState(() => new L.FeatureGroup());
+  const [isDragOver, setIsDragOver] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const featureInfoRequestRef = React.useRef<AbortController | null>(null);
+  const [capabilities, setCapabilities] = React.useState<WMSCapabilities | null>(null);
+  const [areaSelection, setAreaSelection] = React.useState<AreaSelection | null>(null);
+  const [selectedArea, setSelectedArea] = React.useState<AreaFeature | null>(null);
+  const [isTimeSeriesMode, setIsTimeSeriesMode] = React.useState(false);
+  const [showTransect, setShowTransect] = React.useState(false);
+  const [timeSeriesTarget, setTimeSeriesTarget] = React.useState<TimeSeriesTarget | null>(null);
+  const [fireArea, setFireArea] = React.useState<AreaFeature | null>(null);
+  const [compareMode, setCompareMode] = React.useState<CompareMode | null>(null);
+  const [compareIndicator, setCompareIndicator] = React.useState<Indicator>(DEFAULT_INDICATOR);
+  const [compareDateRange, setCompareDateRange] = React.useState<DateRange | undefined>();
+  const [swipePosition, setSwipePosition] = React.useState(0.5);
+  const [leafletMap, setLeafletMap] = React.useState<L.Map | null>(null);
+  const [isTimelapse, setIsTimelapse] = React.useState(false);
+  const [frameDates, setFrameDates] = React.useState<string[]>([]);
+  const [frameIndex, setFrameIndex] = React.useState(0);
+  const [isPlaying, setIsPlaying] = React.useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = React.useState(1);
+  const [loadedFrames, setLoadedFrames] = React.useState<Set<string>>(new Set());
+  const [timelapseExport, setTimelapseExport] = React.useState<[number, number] | null>(null);
+  const [showDashboard, setShowDashboard] = React.useState(() => window.location.hash === DASHBOARD_HASH);
+  const [savedAreas, setSavedAreas] = React.useState<SavedArea[]>([]);
+  const [showSavedAreas, setShowSavedAreas] = React.useState(false);
+  const [showReport, setShowReport] = React.useState(false);
+  const [showOffline, setShowOffline] = React.useState(false);
+  const [showLayers, setShowLayers] = React.useState(false);
+  const [basemapId, setBasemapId] = React.useState<BasemapId>(() => findBasemap(initialView.basemap)?.id ?? DEFAULT_BASEMAP.id);
+  const [overlays, setOverlays] = React.useState<OverlayLayer[]>(() => initialView.overlays ?? []);
+  const previousLayerRef = React.useRef(selectedLayer);
+  const [offlinePacks, setOfflinePacks] = React.useState<OfflinePack[]>(loadPacks);
+  const [isSavedAreasLayerVisible, setIsSavedAreasLayerVisible] = React.useState(true);
+  const [savedAreasLayer] = React.useState(() => new L.FeatureGroup());
+  // The drawn and saved feature groups change in place; bumped whenever either does
+  const [areaRevision, setAreaRevision] = React.useState(0);
+  // New vertices snap to saved areas as well as to drawn ones
+  const snapLayers = React.useMemo(() => [savedAreasLayer], [savedAreasLayer]);
+  const [alertRules, setAlertRules] = React.useState(loadAlertRules);
+  const [alertEvents, setAlertEvents] = React.useState(loadAlertEvents);
+  const [showNotifications, setShowNotifications] = React.useState(false);
+  const [isCheckingAlerts, setIsCheckingAlerts] = React.useState(false);
+  const [alertCheckKey, setAlertCheckKey] = React.useState(0);
+  const [customProfiles, setCustomProfiles] = React.useState(loadCustomProfiles);
+  const [activeProfileId, setActiveProfileId] = React.useState(loadActiveProfileId);
+  const alertRulesRef = React.useRef(alertRules);
+  const [mapView, setMapView] = React.useState<Pick<ViewState, 'center' | 'zoom'> | null>(null);
+  const [linkStatus, setLinkStatus] = React.useState<string | null>(null);
 
   const handleClickOutside = (e: MouseEvent) => {
     const target = e.target as HTMLElement;
@@ -210,60 +216,609 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
     }
   };
 
-  const handleSaveKML = (kml: string) => {
-    const blob = new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'area-selection.kml';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  const wmsUrl = sensor.wmsUrl;
+  // Layers discovered from capabilities belong to the active instance, so they're always supported
+  const isIndicatorSupported = React.useCallback((indicator: Indicator) =>
+    indicator.type === 'natural' || indicator.type === 'wms' || sensor.indicators.includes(indicator.layer),
+  [sensor]);
+
+  const handleSensorSelect = (next: Sensor) => {
+    if (!isSensorAvailable(next)) return;
+    saveSensor(next);
+    setSensor(next);
+    setCapabilities(null);
+    setShowSensorMenu(false);
+  };
+
+  const profiles = [...BUILT_IN_PROFILES, ...customProfiles];
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? BUILT_IN_PROFILES[0];
+  const activeScheme = activeProfile.parameters[selectedLayer];
+
+  const handleProfileSelect = (profile: ClassificationProfile) => {
+    saveActiveProfileId(profile.id);
+    setActiveProfileId(profile.id);
+  };
+
+  // An imported profile replaces a custom one with the same id but never a built-in one
+  const handleProfileImport = (profile: ClassificationProfile) => {
+    const imported = BUILT_IN_PROFILES.some((builtIn) => builtIn.id === profile.id)
+      ? { ...profile, id: `${profile.id}-custom` }
+      : profile;
+    const next = [...customProfiles.filter((custom) => custom.id !== imported.id), imported];
+    saveCustomProfiles(next);
+    setCustomProfiles(next);
+    handleProfileSelect(imported);
+  };
+
+  const handleProfileDelete = (profile: ClassificationProfile) => {
+    const next = customProfiles.filter((custom) => custom.id !== profile.id);
+    saveCustomProfiles(next);
+    setCustomProfiles(next);
+    handleProfileSelect(BUILT_IN_PROFILES[0]);
+  };
+
+  const wmsTime = formatTimeParam(dateRange);
+  const basemap = findBasemap(basemapId) ?? DEFAULT_BASEMAP;
+  // Keyed on the layer names so opacity and visibility changes don't reload tiles
+  const overlayNames = overlays.map((overlay) => overlay.layer).join(',');
+  const overlayParams = React.useMemo(() => Object.fromEntries(overlayNames.split(',').map((layer) => [layer, {
+    layers: layer,
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    ...(wmsTime ? { TIME: wmsTime } : {})
+  }])), [overlayNames, wmsTime]);
+  const availableIndicators = React.useMemo(() => mergeIndicators(capabilities), [capabilities]);
+  const layerTime = capabilities?.layers.find((layer) => layer.name === selectedLayer)?.time;
+  const disabledDates = React.useMemo(() => [
+    { after: new Date() },
+    ...(layerTime ? [(date: Date) => !isDateAvailable(layerTime, date)] : [])
+  ], [layerTime]);
+  const compareLayer = compareIndicator.layer ?? '';
+  const compareTime = formatTimeParam(compareDateRange);
+  const compareTileParams = React.useMemo(() => ({
+    layers: compareLayer,
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    ...(compareTime ? { TIME: compareTime } : {})
+  }), [compareLayer, compareTime]);
+  const leftLabel = `${selectedIndicator?.name} · ${formatAcquisitionWindow(dateRange)}`;
+  const rightLabel = `${compareIndicator.name} · ${formatAcquisitionWindow(compareDateRange)}`;
+  const hasNoScenes = sceneStatus.state === 'ready' && sceneStatus.dates.length === 0;
+
+  // Panning refetches the acquisitions; keep the current frames while that loads and when it finds the same dates
+  React.useEffect(() => {
+    if (sceneStatus.state === 'loading') return;
+    const dates = sceneStatus.state === 'ready' ? sceneStatus.dates : [];
+    setFrameDates((current) => (current.join() === dates.join() ? current : dates));
+  }, [sceneStatus]);
+  const frameParams = React.useMemo(() => Object.fromEntries(frameDates.map((date) => [date, {
+    layers: selectedLayer,
+    format: 'image/png',
+    transparent: true,
+    version: '1.3.0',
+    TIME: date
+  }])), [frameDates, selectedLayer]);
+  const preloadedFrames = frameDates.length > 0
+    ? Array.from({ length: Math.min(TIMELAPSE_PRELOAD + 1, frameDates.length) }, (_, i) => frameDates[(frameIndex + i) % frameDates.length])
+    : [];
+  const isTimelapseActive = isTimelapse && !!selectedLayer && selectedIndicator?.type !== 'natural';
+
+  // A new set of acquisitions starts playback over
+  React.useEffect(() => {
+    setFrameIndex(0);
+    setLoadedFrames(new Set());
+    setIsPlaying(false);
+  }, [frameDates, selectedLayer]);
+
+  // Advance only once the next frame's tiles have loaded so playback doesn't flicker
+  React.useEffect(() => {
+    if (!isPlaying || frameDates.length < 2) return;
+    const next = (frameIndex + 1) % frameDates.length;
+    if (!loadedFrames.has(frameDates[next])) return;
+    const timer = setTimeout(() => setFrameIndex(next), TIMELAPSE_FRAME_MS / playbackSpeed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, frameDates, loadedFrames, playbackSpeed]);
+
+  const handleTimelapseExport = async (format: AnimationFormat) => {
+    const map = mapRef.current;
+    if (!map || frameDates.length === 0) return;
+    setIsPlaying(false);
+    setTimelapseExport([0, frameDates.length]);
+
+    try {
+      const frames: HTMLCanvasElement[] = [];
+      for (const date of frameDates) {
+        const frame = await renderMapSnapshot(map, {
+          basemapUrl: basemap.url,
+          overlays: [{ url: wmsUrl, layer: selectedLayer, time: date }]
+        });
+        drawCaption(frame, `${selectedIndicator?.name} · ${date}`);
+        frames.push(frame);
+        setTimelapseExport([frames.length, frameDates.length]);
+      }
+      const delay = TIMELAPSE_FRAME_MS / playbackSpeed;
+      const blob = format === 'gif' ? encodeGif(frames, delay) : await encodeWebM(frames, delay);
+      downloadBlob(blob, `timelapse-${selectedLayer.toLowerCase()}.${format}`);
+    } catch (error) {
+      console.error('Error exporting time-lapse:', error);
+    }
+    setTimelapseExport(null);
+  };
+
+  const handleMapRef = React.useCallback((map: L.Map | null) => {
+    mapRef.current = map;
+    setLeafletMap(map);
+  }, []);
+
+  // The main map shrinks to the left half in side-by-side mode
+  React.useEffect(() => {
+    leafletMap?.invalidateSize();
+  }, [leafletMap, compareMode]);
+
+  const handleDrawChange = React.useCallback((features: FeatureCollection) => {
+    setDrawnFeatures(features.features.length > 0 ? features : null);
+    setAreaRevision((revision) => revision + 1);
+  }, []);
+
+  const handleDrawingComplete = React.useCallback((layer: L.Layer) => {
+    if (layer instanceof L.Polygon) {
+      setAreaSelection({ layerId: L.stamp(layer) });
+    }
+  }, []);
+
+  const handleDrawStop = React.useCallback(() => setDrawTool(null), []);
+
+  const toggleDrawPalette = () => {
+    setShowDrawPalette(!showDrawPalette);
+    setDrawTool(showDrawPalette ? null : 'polygon');
+    setShowTransect(false);
+  };
+
+  // Transects share the bottom of the screen with the time series and draw with the same handlers
+  const toggleTransect = () => {
+    setShowTransect(!showTransect);
+    setShowDrawPalette(false);
+    setDrawTool(null);
+    setIsTimeSeriesMode(false);
+    setTimeSeriesTarget(null);
+    setShowValidation(false);
+    setFireArea(null);
+  };
+
+  const toggleValidation = () => {
+    setShowValidation(!showValidation);
+    setShowTransect(false);
+    setIsTimeSeriesMode(false);
+    setTimeSeriesTarget(null);
+    setFireArea(null);
+  };
+
+  // Clicking a drawn, imported or saved polygon selects it for analysis instead of querying a pixel
+  React.useEffect(() => {
+    const handleAreaClick = (e: L.LeafletMouseEvent) => {
+      if (!(e.layer instanceof L.Polygon)) return;
+      L.DomEvent.stopPropagation(e);
+      const savedAreaId = savedAreasLayer.hasLayer(e.layer) ? e.layer.feature?.properties?.savedAreaId : undefined;
+      setAreaSelection(typeof savedAreaId === 'string' ? { savedAreaId } : { layerId: L.stamp(e.layer) });
+    };
+    drawnItems.on('click', handleAreaClick);
+    savedAreasLayer.on('click', handleAreaClick);
+    return () => {
+      drawnItems.off('click', handleAreaClick);
+      savedAreasLayer.off('click', handleAreaClick);
+    };
+  }, [drawnItems, savedAreasLayer]);
+
+  React.useEffect(() => {
+    areaStore.list()
+      .then(setSavedAreas)
+      .catch((error) => console.error('Error loading saved areas:', error));
+  }, []);
+
+  // Saved areas get their own read-only layer, apart from the editable drawn items
+  React.useEffect(() => {
+    savedAreasLayer.clearLayers();
+    for (const area of savedAreas) {
+      L.geoJSON(area.feature, { style: SAVED_AREA_STYLE }).eachLayer((layer) => {
+        (layer as L.Polygon).bindTooltip(area.name);
+        savedAreasLayer.addLayer(layer);
+      });
+    }
+  }, [savedAreas, savedAreasLayer]);
+
+  React.useEffect(() => {
+    if (!leafletMap || !isSavedAreasLayerVisible) return;
+    savedAreasLayer.addTo(leafletMap);
+    return () => {
+      savedAreasLayer.remove();
+    };
+  }, [leafletMap, isSavedAreasLayerVisible, savedAreasLayer]);
+
+  // Imported sampling stations, one marker per sample with its measured values
+  React.useEffect(() => {
+    sampleLayer.clearLayers();
+    for (const sample of sampleImports.flatMap((result) => result.samples)) {
+      const values = Object.entries(sample.values).map(([layer, value]) => {
+        const indicator = findIndicator(layer);
+        return `${indicator?.name ?? layer}: ${value}${indicator?.unit ? ` ${indicator.unit}` : ''}`;
+      });
+      // Built from text nodes since station names come straight from the file
+      const content = document.createElement('div');
+      [sample.station, sample.time ? `${sample.date} ${sample.time}` : sample.date, ...values].forEach((line, index) => {
+        const row = document.createElement('div');
+        row.textContent = line;
+        if (index === 0) row.className = 'font-semibold';
+        content.appendChild(row);
+      });
+      L.circleMarker([sample.lat, sample.lng], SAMPLE_MARKER_STYLE).bindTooltip(content).addTo(sampleLayer);
+    }
+  }, [sampleImports, sampleLayer]);
+
+  React.useEffect(() => {
+    if (!leafletMap) return;
+    sampleLayer.addTo(leafletMap);
+    return () => {
+      sampleLayer.remove();
+    };
+  }, [leafletMap, sampleLayer]);
+
+  // Drawn areas are re-read on every revision so edits are reflected; the feature is only replaced
+  // when the shape changed so panels keep what they computed for it
+  const selectedSavedArea = areaSelection && 'savedAreaId' in areaSelection
+    ? savedAreas.find((area) => area.id === areaSelection.savedAreaId)
+    : undefined;
+  React.useEffect(() => {
+    let next: AreaFeature | null = null;
+    if (selectedSavedArea) {
+      next = selectedSavedArea.feature;
+    } else if (areaSelection && 'layerId' in areaSelection) {
+      const layer = drawnItems.getLayer(areaSelection.layerId);
+      if (layer instanceof L.Polygon) next = layer.toGeoJSON() as AreaFeature;
+    }
+    setSelectedArea((current) => (current && next && isSameGeometry(current, next) ? current : next));
+  }, [areaSelection, selectedSavedArea, areaRevision, drawnItems]);
+
+  const handleExport = (format: ExportFormat) => {
+    if (!drawnFeatures) return;
+    exportFeatures(drawnFeatures, {
+      indicator: selectedIndicator?.name,
+      layer: selectedLayer || undefined,
+      dateFrom: dateRange?.from,
+      dateTo: dateRange?.to,
+    }, format);
+    setShowExportDialog(false);
+  };
+
+  const handleImportFiles = async (files: FileList | File[]) => {
+    const results: ImportResult[] = [];
+    const imported = new L.FeatureGroup();
+    const samplePoints: L.LatLngTuple[] = [];
+    const allFiles = Array.from(files);
+
+    // Tables of in-situ samples go to the validation view rather than the drawn areas
+    const sampleFiles = allFiles.filter((file) => isSampleFile(file.name));
+    if (sampleFiles.length > 0) {
+      const sampleResults = await Promise.all(sampleFiles.map((file) =>
+        importSampleFile(file).catch((error): SampleImportResult => ({
+          fileName: file.name,
+          samples: [],
+          parameters: [],
+          issues: [{ row: 0, message: error instanceof Error ? error.message : 'Could not read file' }]
+        }))
+      ));
+      setSampleImports(sampleResults);
+      setShowValidation(true);
+      setShowTransect(false);
+      setIsTimeSeriesMode(false);
+      setTimeSeriesTarget(null);
+      setFireArea(null);
+      sampleResults.forEach((result) => result.samples.forEach((sample) => samplePoints.push([sample.lat, sample.lng])));
+    }
+
+    for (const file of allFiles.filter((candidate) => !isSampleFile(candidate.name))) {
+      try {
+        const result = await importFeatureFile(file);
+        L.geoJSON(result.features).eachLayer((layer) => {
+          drawnItems.addLayer(layer);
+          imported.addLayer(layer);
+        });
+        results.push(result);
+      } catch (error) {
+        results.push({
+          fileName: file.name,
+          features: [],
+          issues: [{ feature: file.name, message: error instanceof Error ? error.message : 'Could not read file' }]
+        });
+      }
+    }
+
+    if (results.length > 0) {
+      setImportResults(results);
+      handleDrawChange(drawnItems.toGeoJSON() as FeatureCollection);
+    }
+
+    const bounds = imported.getBounds();
+    samplePoints.forEach((latlng) => bounds.extend(latlng));
+    if (mapRef.current && bounds.isValid()) {
+      mapRef.current.fitBounds(bounds, { padding: [40, 40] });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (e.dataTransfer.files.length > 0) {
+      handleImportFiles(e.dataTransfer.files);
+    }
   };
 
-  const handleIndicatorSelect = async (indicator: any) => {
+  const handleIndicatorSelect = async (indicator: Indicator) => {
     setIsLoading(true);
     setSelectedIndicator(indicator);
     
     // Simulate loading time
     await new Promise(resolve => setTimeout(resolve, 3000));
     
-    if (indicator.type !== 'natural') {
-      setSelectedLayer(indicator.layer || '');
+    setSelectedLayer(indicator.layer ?? '');
+    setIsLoading(false);
+  };
+
+  // The dashboard lives at #dashboard so it can be bookmarked and left with the back button
+  React.useEffect(() => {
+    const handleHashChange = () => setShowDashboard(window.location.hash === DASHBOARD_HASH);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const openDashboard = (open: boolean) => {
+    if (open) {
+      window.location.hash = DASHBOARD_HASH;
     } else {
-      setSelectedLayer('');
+      history.pushState(null, '', window.location.pathname + window.location.search);
     }
-    setIsLoading(false);
+    setShowDashboard(open);
   };
 
-  const handleSearch = async (query: string) => {
-    if (query.length < 3) {
-      setSearchResults([]);
-      return;
+  const replaceDrawnAreas = React.useCallback((polygons: NonNullable<ViewState['areas']>) => {
+    drawnItems.clearLayers();
+    for (const coordinates of polygons) {
+      L.geoJSON({ type: 'Polygon', coordinates } as Polygon).eachLayer((layer) => drawnItems.addLayer(layer));
     }
-    
-    setIsSearching(true);
+    handleDrawChange(drawnItems.toGeoJSON() as FeatureCollection);
+  }, [drawnItems, handleDrawChange]);
+
+  // Areas shared in the link; zoom to them unless the link also has a view
+  React.useEffect(() => {
+    if (!leafletMap || !initialView.areas) return;
+    replaceDrawnAreas(initialView.areas);
+    const bounds = drawnItems.getBounds();
+    if (!initialView.center && bounds.isValid()) leafletMap.fitBounds(bounds, { padding: [40, 40] });
+  }, [leafletMap, initialView, drawnItems, replaceDrawnAreas]);
+
+  React.useEffect(() => {
+    if (!leafletMap) return;
+    const handleMove = () => {
+      const mapCenter = leafletMap.getCenter();
+      setMapView({ center: [mapCenter.lat, mapCenter.lng], zoom: leafletMap.getZoom() });
+    };
+    handleMove();
+    leafletMap.on('moveend', handleMove);
+    return () => {
+      leafletMap.off('moveend', handleMove);
+    };
+  }, [leafletMap]);
+
+  // The selected indicator follows along in the layer stack
+  React.useEffect(() => {
+    setOverlays((current) => syncActiveOverlay(current, selectedLayer, previousLayerRef.current));
+    previousLayerRef.current = selectedLayer;
+  }, [selectedLayer]);
+
+  // Left out of links while it's just the default imagery with the selected indicator on top
+  const layerView = React.useMemo((): ViewState => {
+    const isDefaultStack = overlays.every((overlay) => overlay.layer === selectedLayer && overlay.visible && overlay.opacity === 1);
+    return {
+      basemap: basemapId === DEFAULT_BASEMAP.id ? undefined : basemapId,
+      overlays: isDefaultStack ? undefined : overlays
+    };
+  }, [basemapId, overlays, selectedLayer]);
+
+  const sharedView = React.useMemo((): ViewState => ({
+    sensor: sensor.id,
+    layer: selectedLayer || undefined,
+    from: dateRange?.from && format(dateRange.from, 'yyyy-MM-dd'),
+    to: dateRange?.from && format(dateRange.to ?? dateRange.from, 'yyyy-MM-dd'),
+    areas: drawnFeatures ? featuresToPolygons(drawnFeatures.features) : undefined
+  }), [sensor.id, selectedLayer, dateRange, drawnFeatures]);
+  const lastSharedViewRef = React.useRef(sharedView);
+  const urlSearchRef = React.useRef(window.location.search);
+
+  // Selections become history entries; panning, zooming and layer tweaks only replace the current one
+  React.useEffect(() => {
+    if (!mapView) return;
+    const { search } = serializeViewState({ ...mapView, ...layerView, ...sharedView });
+    if (search !== window.location.search) {
+      const url = window.location.pathname + search + window.location.hash;
+      if (lastSharedViewRef.current === sharedView) {
+        history.replaceState(null, '', url);
+      } else {
+        history.pushState(null, '', url);
+      }
+    }
+    urlSearchRef.current = search;
+    lastSharedViewRef.current = sharedView;
+  }, [mapView, layerView, sharedView]);
+
+  // Back and forward restore the view stored in the entry
+  React.useEffect(() => {
+    const handlePopState = () => {
+      // Hash changes (the dashboard) also fire popstate without touching the view
+      if (window.location.search === urlSearchRef.current) return;
+      urlSearchRef.current = window.location.search;
+      const view = parseViewState(window.location.search);
+
+      if (leafletMap && view.center) leafletMap.setView(view.center, view.zoom ?? leafletMap.getZoom(), { animate: false });
+      const nextSensor = findSensor(view.sensor);
+      if (nextSensor) setSensor(nextSensor);
+      const indicator = findIndicator(view.layer);
+      setSelectedIndicator(indicator ?? DEFAULT_INDICATOR);
+      setSelectedLayer(indicator?.layer ?? '');
+      setBasemapId(findBasemap(view.basemap)?.id ?? DEFAULT_BASEMAP.id);
+      // Links from before the layer manager only name the selected layer
+      setOverlays(view.overlays ?? (indicator?.layer ? [createOverlay(indicator.layer)] : []));
+      setDateRange(toDateRange(view));
+      setDateMode(view.from && view.from === view.to ? 'single' : 'range');
+      replaceDrawnAreas(view.areas ?? []);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [leafletMap, replaceDrawnAreas]);
+
+  const handleCopyLink = async () => {
+    const { areasOmitted } = serializeViewState(sharedView);
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}`
-      );
-      const data = await response.json();
-      setSearchResults(data.slice(0, 5));
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkStatus(areasOmitted ? 'Link copied, areas are too large to include' : 'Link copied');
     } catch (error) {
-      console.error('Search error:', error);
-      setSearchResults([]);
+      console.error('Error copying link:', error);
+      setLinkStatus('Could not copy the link');
     }
-    setIsSearching(false);
+    setTimeout(() => setLinkStatus(null), 2500);
   };
 
-  const handleLocationSelect = (result: SearchResult) => {
-    if (mapRef.current) {
-      mapRef.current.setView([parseFloat(result.lat), parseFloat(result.lon)], 12);
+  const persistArea = async (area: SavedArea) => {
+    try {
+      await areaStore.put(area);
+      setSavedAreas((current) => current.some((candidate) => candidate.id === area.id)
+        ? current.map((candidate) => (candidate.id === area.id ? area : candidate))
+        : [...current, area]);
+      return true;
+    } catch (error) {
+      console.error('Error saving area:', error);
+      alert('Could not save the area');
+      return false;
+    }
+  };
+
+  const handleDeleteArea = async (area: SavedArea) => {
+    try {
+      await areaStore.remove(area.id);
+      setSavedAreas((current) => current.filter((candidate) => candidate.id !== area.id));
+    } catch (error) {
+      console.error('Error deleting area:', error);
+      alert('Could not delete the area');
+    }
+  };
+
+  const handleSaveArea = (name: string) => {
+    if (!selectedArea) return;
+    const preferred = WATER_QUALITY_PARAMETERS.includes(selectedLayer) ? [selectedLayer] : [];
+    const area = createSavedArea(selectedArea, { name, indicators: preferred });
+    persistArea(area).then((saved) => {
+      if (saved) setAreaSelection({ savedAreaId: area.id });
+    });
+  };
+
+  // Show a saved area on the map, zoomed to it, optionally with one of its indicators
+  const handleOpenSavedArea = (area: SavedArea, layer?: string) => {
+    openDashboard(false);
+    setIsSavedAreasLayerVisible(true);
+    const shown = savedAreasLayer.getLayers().find((candidate) =>
+      (candidate as L.Polygon).feature?.properties?.savedAreaId === area.id
+    );
+    setAreaSelection({ savedAreaId: area.id });
+    if (shown instanceof L.Polygon) mapRef.current?.fitBounds(shown.getBounds(), { padding: [40, 40] });
+    const indicator = layer && availableIndicators.find((candidate) => candidate.layer === layer);
+    if (indicator && indicator.layer !== selectedLayer) handleIndicatorSelect(indicator);
+  };
+
+  React.useEffect(() => {
+    alertRulesRef.current = alertRules;
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  React.useEffect(() => {
+    saveAlertEvents(alertEvents);
+  }, [alertEvents]);
+
+  // Evaluate the rules on acquisitions they haven't seen, on load, periodically and on demand
+  React.useEffect(() => {
+    if (savedAreas.length === 0 || alertRulesRef.current.length === 0) return;
+    const controller = new AbortController();
+    setIsCheckingAlerts(true);
+
+    checkRules(alertRulesRef.current, savedAreas, { url: wmsUrl, typename: sensor.sceneTypename, signal: controller.signal })
+      .then(({ rules, events }) => {
+        // Rules may have been edited while the check ran, only carry over how far each got
+        const checked = Object.fromEntries(rules.map((rule) => [rule.id, rule]));
+        setAlertRules((current) => current.map((rule) =>
+          checked[rule.id] ? { ...rule, lastCheckedDate: checked[rule.id].lastCheckedDate } : rule
+        ));
+        if (events.length > 0) setAlertEvents((current) => [...events.reverse(), ...current]);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Error checking alert rules:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsCheckingAlerts(false);
+      });
+    return () => {
+      controller.abort();
+      setIsCheckingAlerts(false);
+    };
+  }, [savedAreas, wmsUrl, sensor.sceneTypename, alertCheckKey]);
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setAlertCheckKey((key) => key + 1), ALERT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const acknowledgeAlert = (event: AlertEvent) => {
+    setAlertEvents((current) => current.map((candidate) =>
+      candidate.id === event.id ? { ...candidate, acknowledged: true } : candidate
+    ));
+  };
+
+  // Show the acquisition that triggered an alert
+  const handleViewAlert = (event: AlertEvent) => {
+    const area = savedAreas.find((candidate) => candidate.id === event.areaId);
+    const date = parseISO(event.date);
+    setDateMode('single');
+    setDateRange({ from: date, to: date });
+    if (area) handleOpenSavedArea(area, event.layer);
+    acknowledgeAlert(event);
+    setShowNotifications(false);
+  };
+
+  const alertIndicators = availableIndicators
+    .filter(hasLayer)
+    .filter(isIndicatorSupported)
+    .map(({ name, layer, unit }) => ({ name, layer, unit }));
+
+  const waterQualityIndicators = availableIndicators
+    .filter(hasLayer)
+    .filter((indicator) => WATER_QUALITY_PARAMETERS.includes(indicator.layer));
+  const dashboardIndicators = waterQualityIndicators
+    .filter(isIndicatorSupported)
+    .map(({ name, layer, unit }): DashboardIndicator => ({ name, layer, unit }));
+
+  const handleOfflinePacksChange = (packs: OfflinePack[]) => {
+    setOfflinePacks(packs);
+    savePacks(packs);
+  };
+
+  // Fit places with an extent, zoom in on single points
+  const handleLocationSelect = (result: GeocodeResult) => {
+    const [west, south, east, north] = result.bbox ?? [0, 0, 0, 0];
+    if (west !== east || south !== north) {
+      mapRef.current?.fitBounds([[south, west], [north, east]], { maxZoom: 16 });
+    } else {
+      mapRef.current?.setView([result.lat, result.lng], 14);
     }
     setShowSearch(false);
-    setSearchQuery('');
-    setSearchResults([]);
   };
 
   React.useEffect(() => {
@@ -274,153 +829,141 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
   }, []);
 
   React.useEffect(() => {
-    fetchWMSCapabilities();
-  }, []);
+    const controller = new AbortController();
+    fetchCapabilities(wmsUrl, controller.signal)
+      .then(setCapabilities)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        // Fall back to the built-in catalog when the instance cannot be reached
+        console.error('Error fetching WMS capabilities:', error);
+      });
+    return () => controller.abort();
+  }, [wmsUrl]);
 
-  // Add this function to determine water quality
-  const getWaterQuality = (value: number, parameter: string): 'Good' | 'Medium' | 'Poor' | 'Unknown' => {
-    const ranges = WATER_QUALITY_RANGES[parameter];
-    if (!ranges) return 'Unknown';
-
-    // Update quality assessment based on parameter
-    switch (parameter) {
-      case 'CHLA':
-        if (value <= ranges.good[1]) return 'Good';
-        if (value <= ranges.medium[1]) return 'Medium';
-        return 'Poor';
-      
-      case 'DISSOLVED-OXYGEN':
-        if (value >= ranges.good[0]) return 'Good';
-        if (value >= ranges.medium[0]) return 'Medium';
-        return 'Poor';
-      
-      case 'TOTAL-SUSPENDED-SOLIDS':
-        if (value <= ranges.good[1]) return 'Good';
-        if (value <= ranges.medium[1]) return 'Medium';
-        return 'Poor';
-      
-      case 'TURBIDITY':
-        if (value <= ranges.good[1]) return 'Good';
-        if (value <= ranges.medium[1]) return 'Medium';
-        return 'Poor';
-      
-      default:
-        return 'Unknown';
+  // Drop the selection if the instance no longer publishes its layer or the sensor can't render it
+  React.useEffect(() => {
+    const indicator = availableIndicators.find((candidate) => candidate.layer === selectedLayer);
+    if (selectedLayer && (!indicator || !isIndicatorSupported(indicator))) {
+      setSelectedIndicator(DEFAULT_INDICATOR);
+      setSelectedLayer('');
     }
+  }, [availableIndicators, selectedLayer, isIndicatorSupported]);
+
+  const readPixel = async (layer: string, time: string | undefined, latlng: L.LatLng, map: L.Map, signal: AbortSignal): Promise<PixelReading> => {
+    const result = await getFeatureInfo({
+      url: wmsUrl,
+      layer,
+      bounds: map.getBounds(),
+      size: map.getSize(),
+      point: map.latLngToContainerPoint(latlng),
+      time,
+      signal
+    });
+    return result.value === null
+      ? { value: null, message: result.reason }
+      : { value: result.value };
   };
 
   // Add click handler function
   const handleMapClick = async (e: L.LeafletMouseEvent) => {
-    if (selectedIndicator?.type === 'natural') {
+    // Clicks place the transect's vertices
+    if (showTransect) return;
+
+    if (selectedIndicator?.type === 'natural' && !compareMode) {
       setPixelInfo({
         value: null,
-        quality: 'Unknown',
         coordinates: [e.latlng.lat, e.latlng.lng],
         message: 'Please select a water quality parameter to view point values'
       });
       return;
     }
 
-    if (!selectedLayer) {
+    if (!selectedLayer && !compareMode) {
       setPixelInfo(null);
       return;
     }
 
+    if (isTimeSeriesMode && selectedLayer) {
+      setTimeSeriesTarget({ type: 'point', latlng: e.latlng });
+      return;
+    }
+
     const map = mapRef.current;
     if (!map) return;
 
-    const bounds = map.getBounds();
-    const size = map.getSize();
-    const point = map.latLngToContainerPoint(e.latlng);
-
-    const wmsParams = {
-      REQUEST: 'GetFeatureInfo',
-      SERVICE: 'WMS',
-      VERSION: '1.3.0',
-      LAYERS: selectedLayer,
-      QUERY_LAYERS: selectedLayer,
-      INFO_FORMAT: 'application/json',
-      I: Math.round(point.x),
-      J: Math.round(point.y),
-      WIDTH: size.x,
-      HEIGHT: size.y,
-      CRS: 'EPSG:4326',
-      BBOX: `${bounds.getSouth()},${bounds.getWest()},${bounds.getNorth()},${bounds.getEast()}`,
-      TIME: dateRange ? `${dateRange.from?.toISOString()}/${dateRange.to?.toISOString()}` : undefined
-    };
-
-    // Simulate reasonable values for each parameter
-    const getSimulatedValue = (parameter: string): number => {
-      switch (parameter) {
-        case 'CHLA':
-          // Chlorophyll-a: typically 0.1-10 mg/m³
-          return Math.random() * 9.9 + 0.1;
-        case 'DISSOLVED-OXYGEN':
-          // DO: typically 4-14 mg/L
-          return Math.random() * 10 + 4;
-        case 'TOTAL-SUSPENDED-SOLIDS':
-          // TSS: typically 1-100 mg/L
-          return Math.random() * 99 + 1;
-        case 'TURBIDITY':
-          // Turbidity: typically 0-50 NTU
-          return Math.random() * 50;
-        default:
-          return 0;
-      }
-    };
+    featureInfoRequestRef.current?.abort();
+    const controller = new AbortController();
+    featureInfoRequestRef.current = controller;
+    const coordinates: [number, number] = [e.latlng.lat, e.latlng.lng];
 
     try {
-      // For demonstration, using simulated values
-      const simulatedValue = getSimulatedValue(selectedLayer);
-      setPixelInfo({
-        value: simulatedValue,
-        quality: getWaterQuality(simulatedValue, selectedLayer),
-        coordinates: [e.latlng.lat, e.latlng.lng]
-      });
-
-      // Uncomment below for actual WMS implementation
-      /*
-      const response = await fetch(`${WMS_URL}?${queryString}`);
-      const data = await response.json();
-      
-      if (data.features && data.features[0] && data.features[0].properties) {
-        const value = parseFloat(data.features[0].properties[selectedLayer]);
-        if (!isNaN(value)) {
-          setPixelInfo({
-            value,
-            quality: getWaterQuality(value, selectedLayer),
-            coordinates: [e.latlng.lat, e.latlng.lng]
-          });
-        }
+      if (compareMode) {
+        const readSide = (layer: string, time?: string): Promise<PixelReading> => layer
+          ? readPixel(layer, time, e.latlng, map, controller.signal)
+          : Promise.resolve({ value: null, message: 'Natural color has no values' });
+        const [left, right] = await Promise.all([
+          readSide(selectedLayer, wmsTime),
+          readSide(compareLayer, compareTime)
+        ]);
+        setPixelInfo({
+          ...left,
+          coordinates,
+          message: undefined,
+          compare: {
+            left: { ...left, label: leftLabel, layer: selectedLayer },
+            right: { ...right, label: rightLabel, layer: compareLayer }
+          }
+        });
+        return;
       }
-      */
+
+      const reading = await readPixel(selectedLayer, wmsTime, e.latlng, map, controller.signal);
+      setPixelInfo({ ...reading, coordinates });
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('Error fetching pixel info:', error);
-      setPixelInfo(null);
+      setPixelInfo({
+        value: null,
+        coordinates,
+        message: 'Could not retrieve the pixel value. Please try again.'
+      });
     }
   };
 
   // Add this effect to handle map click events
   React.useEffect(() => {
-    const map = mapRef.current;
+    const map = leafletMap;
     if (!map) return;
 
     map.on('click', handleMapClick);
     return () => {
       map.off('click', handleMapClick);
     };
-  }, [selectedLayer, selectedIndicator]);
+  }, [leafletMap, selectedLayer, selectedIndicator, wmsTime, isTimeSeriesMode, showTransect, compareMode, compareLayer, compareTime, leftLabel, rightLabel]);
 
   // Add this function to handle NaN values
   const formatValue = (value: number | null, layer: string): string => {
     if (value === null) {
       return 'No data available';
     }
-    return `${value.toFixed(2)} ${WMS_RANGES[layer]?.unit || ''}`;
+    return `${value.toFixed(2)} ${availableIndicators.find((indicator) => indicator.layer === layer)?.unit ?? ''}`;
   };
 
   return (
-    <div className="h-screen w-full relative">
+    <div
+      className="h-screen w-full relative"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDragOver(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
       <nav className="absolute top-0 left-0 right-0 z-[1000] bg-black bg-opacity-80 text-white p-4 flex justify-between items-center rounded-b-2xl">
         <div className="w-32 h-16">
           <img 
@@ -432,11 +975,11 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
         <div className="flex items-center space-x-4 mx-auto relative">
           <button 
             className={`flex items-center px-4 py-2 rounded-xl ${
-              isDrawing ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+              showDrawPalette ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
             }`}
-            onClick={() => setIsDrawing(!isDrawing)}
+            onClick={toggleDrawPalette}
           >
-            <MapPin className="mr-2" /> {isDrawing ? 'Drawing Mode' : 'Select Area'}
+            <MapPin className="mr-2" /> {showDrawPalette ? 'Drawing Mode' : 'Select Area'}
           </button>
           <button 
             className="date-button flex items-center px-4 py-2 hover:bg-white hover:bg-opacity-20 rounded-xl"
@@ -449,40 +992,223 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
             onClick={() => setShowSensorMenu(!showSensorMenu)}
           >
             <Activity className="mr-2" /> Sensors
+            <span className="ml-2 text-xs text-gray-300">{sensor.name}</span>
           </button>
-          <button className="flex items-center px-4 py-2 hover:bg-white hover:bg-opacity-20 rounded-xl">
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              isTimeSeriesMode ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => {
+              setIsTimeSeriesMode(!isTimeSeriesMode);
+              setShowTransect(false);
+              setShowValidation(false);
+              setFireArea(null);
+            }}
+            title="Click a point on the map to chart its values over the selected dates"
+          >
+            <LineChart className="mr-2" /> Time Series
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl disabled:opacity-50 ${
+              showTransect ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={toggleTransect}
+            disabled={!selectedLayer}
+            title={selectedLayer ? 'Draw a line to chart the values along it' : 'Select a water quality parameter to draw a transect'}
+          >
+            <Route className="mr-2" /> Transect
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              showValidation ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={toggleValidation}
+            title="Compare imported in-situ samples with the satellite estimates"
+          >
+            <FlaskConical className="mr-2" /> Validate
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              compareMode ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => setCompareMode(compareMode ? null : 'swipe')}
+          >
+            <SplitSquareHorizontal className="mr-2" /> Compare
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              isTimelapse ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => setIsTimelapse(!isTimelapse)}
+          >
+            <Film className="mr-2" /> Time-lapse
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              showLayers ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => {
+              setShowLayers(!showLayers);
+              setShowSavedAreas(false);
+              setShowOffline(false);
+            }}
+            title="Stack parameters, set their opacity and switch the basemap"
+          >
+            <Layers className="mr-2" /> Layers
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              showSavedAreas ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => {
+              setShowSavedAreas(!showSavedAreas);
+              setShowOffline(false);
+              setShowLayers(false);
+            }}
+          >
+            <Bookmark className="mr-2" /> Areas
+          </button>
+          <button
+            className="flex items-center px-4 py-2 hover:bg-white hover:bg-opacity-20 rounded-xl"
+            onClick={() => openDashboard(true)}
+          >
             <Menu className="mr-2" /> Dashboard
           </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              showReport ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => setShowReport(!showReport)}
+            title="Print the current view with area statistics as a PDF or PNG"
+          >
+            <FileText className="mr-2" /> Report
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-xl ${
+              showOffline ? 'bg-blue-500 text-white' : 'hover:bg-white hover:bg-opacity-20'
+            }`}
+            onClick={() => {
+              setShowOffline(!showOffline);
+              setShowSavedAreas(false);
+              setShowLayers(false);
+            }}
+            title="Download areas to use the map without a connection"
+          >
+            <DownloadCloud className="mr-2" /> Offline
+          </button>
+          <button
+            className="flex items-center px-4 py-2 hover:bg-white hover:bg-opacity-20 rounded-xl"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="mr-2" /> Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${IMPORT_ACCEPT},${SAMPLE_IMPORT_ACCEPT}`}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) {
+                handleImportFiles(e.target.files);
+              }
+              e.target.value = '';
+            }}
+          />
+          {drawnFeatures && (
+            <button
+              className="flex items-center px-4 py-2 hover:bg-white hover:bg-opacity-20 rounded-xl"
+              onClick={() => setShowExportDialog(true)}
+            >
+              <Download className="mr-2" /> Export
+            </button>
+          )}
 
           {showDatePicker && (
             <div className="date-picker-container absolute top-full mt-2 bg-black bg-opacity-90 rounded-xl p-4 shadow-lg" style={{ left: '50%', transform: 'translateX(-50%)' }}>
-              <DayPicker
-                mode="range"
-                selected={dateRange}
-                onSelect={setDateRange}
-                numberOfMonths={1}
-                defaultMonth={new Date()}
-                className="bg-transparent text-white"
-                modifiersStyles={{
-                  selected: {
-                    backgroundColor: '#a16207'
-                  }
-                }}
-                showOutsideDays
-                fixedWeeks
-              />
+              <div className="flex gap-2 mb-2">
+                {(['range', 'single'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    className={`flex-1 px-3 py-1 text-sm text-white rounded-lg transition-colors ${
+                      dateMode === mode ? 'bg-yellow-700' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+                    }`}
+                    onClick={() => {
+                      setDateMode(mode);
+                      if (mode === 'single' && dateRange?.from) {
+                        setDateRange({ from: dateRange.from, to: dateRange.from });
+                      }
+                    }}
+                  >
+                    {mode === 'range' ? 'Date range' : 'Single date'}
+                  </button>
+                ))}
+              </div>
+              {dateMode === 'range' ? (
+                <DayPicker
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={setDateRange}
+                  numberOfMonths={1}
+                  defaultMonth={dateRange?.from ?? new Date()}
+                  disabled={disabledDates}
+                  className="bg-transparent text-white"
+                  modifiersStyles={{
+                    selected: {
+                      backgroundColor: '#a16207'
+                    }
+                  }}
+                  showOutsideDays
+                  fixedWeeks
+                />
+              ) : (
+                <DayPicker
+                  mode="single"
+                  selected={dateRange?.from}
+                  onSelect={(date) => setDateRange(date ? { from: date, to: date } : undefined)}
+                  numberOfMonths={1}
+                  defaultMonth={dateRange?.from ?? new Date()}
+                  disabled={disabledDates}
+                  className="bg-transparent text-white"
+                  modifiersStyles={{
+                    selected: {
+                      backgroundColor: '#a16207'
+                    }
+                  }}
+                  showOutsideDays
+                  fixedWeeks
+                />
+              )}
+              {dateRange && (
+                <button
+                  className="w-full mt-2 px-3 py-1 text-sm text-gray-300 hover:text-white"
+                  onClick={() => setDateRange(undefined)}
+                >
+                  Clear dates (latest imagery)
+                </button>
+              )}
             </div>
           )}
 
           {showSensorMenu && (
             <div className="sensor-menu-container absolute top-full mt-2 bg-black bg-opacity-90 rounded-xl p-2 shadow-lg" style={{ left: '50%', transform: 'translateX(-50%)' }}>
               <div className="flex flex-col gap-2">
-                <button className="px-4 py-2 text-white hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors">
-                  Sentinel
-                </button>
-                <button className="px-4 py-2 text-white hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors">
-                  Planetscope
-                </button>
+                {SENSORS.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => handleSensorSelect(option)}
+                    disabled={!isSensorAvailable(option)}
+                    title={isSensorAvailable(option) ? undefined : `${option.name} has no WMS instance configured`}
+                    className={`px-4 py-2 text-left text-white rounded-lg transition-colors disabled:opacity-50 ${
+                      option.id === sensor.id ? 'bg-blue-500' : 'hover:bg-white hover:bg-opacity-20'
+                    }`}
+                  >
+                    <div>{option.name}</div>
+                    <div className="text-xs text-gray-300 whitespace-nowrap">
+                      {option.resolutionM} m · {option.revisitDays === 1 ? 'daily' : `every ${option.revisitDays} days`}
+                    </div>
+                  </button>
+                ))}
               </div>
             </div>
           )}
@@ -496,63 +1222,59 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
               <Search className="w-5 h-5" />
             </button>
             
-            {showSearch && (
-              <div className="absolute right-0 mt-2 w-80 bg-black bg-opacity-90 rounded-xl shadow-lg p-4 z-50">
-                <div className="flex items-center gap-2 mb-4">
-                  <Search className="w-4 h-4 text-gray-400" />
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => {
-                      setSearchQuery(e.target.value);
-                      handleSearch(e.target.value);
-                    }}
-                    placeholder="Search places..."
-                    className="flex-1 bg-transparent border-none outline-none text-white placeholder-gray-400"
-                  />
-                  {searchQuery && (
-                    <button
-                      onClick={() => {
-                        setSearchQuery('');
-                        setSearchResults([]);
-                      }}
-                      className="text-gray-400 hover:text-white"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                  )}
-                </div>
-                
-                {isSearching && (
-                  <div className="text-center text-gray-400 py-2">
-                    Searching...
-                  </div>
-                )}
-                
-                {!isSearching && searchResults.length > 0 && (
-                  <div className="space-y-2">
-                    {searchResults.map((result, index) => (
-                      <button
-                        key={index}
-                        onClick={() => handleLocationSelect(result)}
-                        className="w-full text-left px-3 py-2 text-white hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors text-sm truncate"
-                      >
-                        {result.display_name}
-                      </button>
-                    ))}
-                  </div>
-                )}
-                
-                {!isSearching && searchQuery.length >= 3 && searchResults.length === 0 && (
-                  <div className="text-center text-gray-400 py-2">
-                    No results found
-                  </div>
-                )}
+            {showSearch && <SearchBox onSelect={handleLocationSelect} />}
+          </div>
+          
+          <div className="relative">
+            <button
+              onClick={handleCopyLink}
+              className="text-gray-300 cursor-pointer hover:text-white p-2 rounded-xl hover:bg-white hover:bg-opacity-20"
+              title="Copy link to this view"
+              aria-label="Copy link"
+            >
+              <Link className="w-5 h-5" />
+            </button>
+            {linkStatus && (
+              <div className="absolute right-0 mt-2 whitespace-nowrap bg-black bg-opacity-90 rounded-xl px-3 py-2 text-sm z-50">
+                {linkStatus}
               </div>
             )}
           </div>
-          
-          <Bell className="text-gray-300 cursor-pointer hover:text-white" />
+          <div className="relative">
+            <button
+              onClick={() => setShowNotifications(!showNotifications)}
+              className="relative text-gray-300 cursor-pointer hover:text-white p-2 rounded-xl hover:bg-white hover:bg-opacity-20"
+              aria-label="Notifications"
+            >
+              <Bell className="w-5 h-5" />
+              {countUnread(alertEvents) > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-xs leading-[18px] text-center">
+                  {countUnread(alertEvents)}
+                </span>
+              )}
+            </button>
+
+            {showNotifications && (
+              <NotificationDrawer
+                events={alertEvents}
+                rules={alertRules}
+                areas={savedAreas}
+                indicators={alertIndicators}
+                isChecking={isCheckingAlerts}
+                onAddRule={(rule) => {
+                  setAlertRules([...alertRules, rule]);
+                  setAlertCheckKey(alertCheckKey + 1);
+                }}
+                onRuleChange={(rule) => setAlertRules(alertRules.map((candidate) => (candidate.id === rule.id ? rule : candidate)))}
+                onDeleteRule={(rule) => setAlertRules(alertRules.filter((candidate) => candidate.id !== rule.id))}
+                onAcknowledge={acknowledgeAlert}
+                onAcknowledgeAll={() => setAlertEvents(alertEvents.map((event) => ({ ...event, acknowledged: true })))}
+                onView={handleViewAlert}
+                onCheckNow={() => setAlertCheckKey(alertCheckKey + 1)}
+                onClose={() => setShowNotifications(false)}
+              />
+            )}
+          </div>
           <div className="flex items-center space-x-2">
             <span>User</span>
             <div className="w-10 h-10 rounded-full bg-gray-700"></div>
@@ -561,35 +1283,144 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
       </nav>
 
       <MapContainer 
-        center={center} 
-        zoom={zoom} 
-        className="h-full w-full"
+        center={initialView.center ?? center} 
+        zoom={initialView.zoom ?? zoom} 
+        className={compareMode === 'split' ? 'h-full w-1/2' : 'h-full w-full'}
         zoomControl={false}
-        ref={mapRef}
+        ref={handleMapRef}
       >
-        <TileLayer
-          url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-          attribution='Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
-        />
-        {selectedLayer && selectedIndicator?.type !== 'natural' && (
+        {compareMode === 'swipe' && <SwipeClip position={swipePosition} />}
+        {basemap.url && (
+          <TileLayer
+            key={basemap.id}
+            url={basemap.url}
+            attribution={basemap.attribution}
+            maxZoom={basemap.maxZoom}
+          />
+        )}
+        {isTimelapseActive && preloadedFrames.map((date) => (
+          <WMSTileLayer
+            key={`frame-${selectedLayer}-${date}`}
+            url={wmsUrl}
+            params={frameParams[date]}
+            opacity={date === frameDates[frameIndex] ? 1 : 0}
+            zIndex={OVERLAY_Z_INDEX + Math.max(0, overlays.findIndex((overlay) => overlay.layer === selectedLayer))}
+            eventHandlers={{
+              load: () => setLoadedFrames((loaded) => (loaded.has(date) ? loaded : new Set(loaded).add(date)))
+            }}
+          />
+        ))}
+        {overlays.map((overlay, index) => {
+          const isSelected = overlay.layer === selectedLayer;
+          // The selected indicator gives way to the time-lapse frames and to empty date ranges
+          if (!overlay.visible || (isSelected && (selectedIndicator?.type === 'natural' || hasNoScenes || isTimelapseActive))) return null;
+          return (
+            <WMSTileLayer
+              // Re-create the layer when TIME or its pane changes so stale tiles and params are dropped
+              key={`${overlay.layer}-${wmsTime ?? 'latest'}-${isSelected && compareMode === 'swipe'}`}
+              url={wmsUrl}
+              params={overlayParams[overlay.layer]}
+              opacity={overlay.opacity}
+              zIndex={OVERLAY_Z_INDEX + index}
+              pane={isSelected && compareMode === 'swipe' ? SWIPE_LEFT_PANE : undefined}
+            />
+          );
+        })}
+        {compareMode === 'swipe' && compareLayer && (
           <WMSTileLayer
-            key={selectedLayer}
-            url={WMS_URL}
-            layers={selectedLayer}
-            format="image/png"
-            transparent={true}
-            version="1.3.0"
+            key={`compare-${compareLayer}-${compareTime ?? 'latest'}`}
+            url={wmsUrl}
+            params={compareTileParams}
+            pane={SWIPE_RIGHT_PANE}
           />
         )}
+        <AcquisitionWindow
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          dateRange={dateRange}
+          active={!!selectedLayer && selectedIndicator?.type !== 'natural'}
+          onStatusChange={setSceneStatus}
+        />
         <ZoomControl position="bottomright" />
         <DrawControl 
           position="bottomright"
-          isDrawing={isDrawing}
-          onSave={handleSaveKML}
-          onDrawingComplete={() => setIsDrawing(false)}
+          featureGroup={drawnItems}
+          tool={drawTool}
+          snapLayers={snapLayers}
+          snapping={isSnapping}
+          onChange={handleDrawChange}
+          onDrawingComplete={handleDrawingComplete}
+          onDrawStop={handleDrawStop}
+          onActionsChange={setDrawActions}
         />
       </MapContainer>
 
+      {compareMode === 'swipe' && (
+        <SwipeDivider
+          position={swipePosition}
+          leftLabel={leftLabel}
+          rightLabel={rightLabel}
+          onChange={setSwipePosition}
+        />
+      )}
+
+      {compareMode === 'split' && leafletMap && (
+        <>
+          <MirrorMap source={leafletMap} className="absolute top-0 right-0 h-full w-1/2 border-l-2 border-white">
+            {basemap.url && <TileLayer key={basemap.id} url={basemap.url} maxZoom={basemap.maxZoom} />}
+            {compareLayer && (
+              <WMSTileLayer
+                key={`compare-${compareLayer}-${compareTime ?? 'latest'}`}
+                url={wmsUrl}
+                params={compareTileParams}
+              />
+            )}
+          </MirrorMap>
+          <div className="absolute bottom-20 left-4 z-[900] bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg">
+            {leftLabel}
+          </div>
+          <div className="absolute bottom-20 right-16 z-[900] bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg">
+            {rightLabel}
+          </div>
+        </>
+      )}
+
+      {isTimelapseActive && (
+        <TimelapseControl
+          dates={frameDates}
+          frameIndex={frameIndex}
+          isPlaying={isPlaying}
+          speed={playbackSpeed}
+          loadedDates={loadedFrames}
+          exportProgress={timelapseExport}
+          message={
+            !dateRange?.from ? 'Select a date range to play its acquisitions' :
+            sceneStatus.state === 'loading' && frameDates.length === 0 ? 'Searching acquisitions...' :
+            frameDates.length === 0 ? 'No acquisitions in the selected date range' :
+            undefined
+          }
+          onFrameChange={setFrameIndex}
+          onPlayingChange={setIsPlaying}
+          onSpeedChange={setPlaybackSpeed}
+          onExport={handleTimelapseExport}
+          onClose={() => setIsTimelapse(false)}
+        />
+      )}
+
+      {compareMode && (
+        <ComparePanel
+          mode={compareMode}
+          leftLabel={leftLabel}
+          options={availableIndicators}
+          rightIndicator={compareIndicator}
+          rightDateRange={compareDateRange}
+          onModeChange={setCompareMode}
+          onRightIndicatorChange={setCompareIndicator}
+          onRightDateRangeChange={setCompareDateRange}
+          onClose={() => setCompareMode(null)}
+        />
+      )}
+
       <div 
         className={`absolute left-0 top-1/2 -translate-y-1/2 z-[1000] bg-black bg-opacity-80 text-white p-6 transition-all duration-300 ease-in-out rounded-r-3xl ${
           isPanelVisible ? 'translate-x-0' : '-translate-x-full'
@@ -598,17 +1429,20 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
       >
         <h2 className="text-xl font-bold mb-8">Indicators</h2>
         <div className="space-y-6">
-          {indicators.map((indicator) => {
+          {availableIndicators.map((indicator) => {
             const Icon = indicator.icon;
+            const isSupported = isIndicatorSupported(indicator);
             return (
               <button 
-                key={indicator.name}
-                className={`w-full px-6 py-3 text-left text-white rounded-xl transition-colors flex items-center gap-3 ${
+                key={indicator.id}
+                className={`w-full px-6 py-3 text-left text-white rounded-xl transition-colors flex items-center gap-3 disabled:opacity-40 disabled:cursor-not-allowed ${
                   selectedIndicator?.name === indicator.name 
                     ? 'bg-gray-1000 hover:bg-gray-700'
                     : 'bg-white bg-opacity-10 hover:bg-opacity-20'
                 }`}
                 onClick={() => handleIndicatorSelect(indicator)}
+                disabled={!isSupported}
+                title={isSupported ? undefined : `Not available from ${sensor.name}`}
               >
                 <Icon className="w-5 h-5" />
                 <span>{indicator.name}</span>
@@ -628,59 +1462,327 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
       {selectedIndicator && isPanelVisible && (
         <div className="absolute right-0 top-1/2 -translate-y-1/2 z-[1000] bg-black bg-opacity-80 text-white p-4 rounded-l-3xl" style={{ width: '300px' }}>
           <h3 className="text-lg font-semibold mb-4">{selectedIndicator.name}</h3>
-          <div className="flex items-center mb-4">
-            {selectedIndicator.type === 'discrete' ? (
-              <div className="flex flex-col gap-4 mr-4">
-                {selectedIndicator.indicators.map((ind, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <div className={`w-6 h-6 rounded-lg ${ind.color}`}></div>
-                    <span className="text-sm">{ind.label}</span>
-                  </div>
-                ))}
-              </div>
-            ) : selectedIndicator.type === 'natural' ? (
-              <p className="text-sm">
-                {selectedIndicator.description}
-              </p>
-            ) : (
-              <div className="flex items-center gap-2">
-                <div className="flex flex-col justify-between text-xs text-right h-32">
-                  {selectedIndicator.layer && WMS_RANGES[selectedIndicator.layer] ? (
-                    <>
-                      <span>{WMS_RANGES[selectedIndicator.layer].max}</span>
-                      <span>{WMS_RANGES[selectedIndicator.layer].mid}</span>
-                      <span>{WMS_RANGES[selectedIndicator.layer].min}</span>
-                    </>
-                  ) : (
-                    <>
-                      <span>100</span>
-                      <span>50</span>
-                      <span>0</span>
-                    </>
+          <IndicatorLegend indicator={selectedIndicator} wmsUrl={wmsUrl} />
+          {selectedLayer && WATER_QUALITY_PARAMETERS.includes(selectedLayer) && (
+            <div className="flex flex-col gap-2 mb-4 border-t border-gray-600 pt-3">
+              <ProfileSelector
+                profiles={profiles}
+                activeProfile={activeProfile}
+                isCustom={(profile) => customProfiles.includes(profile)}
+                onSelect={handleProfileSelect}
+                onImport={handleProfileImport}
+                onDelete={handleProfileDelete}
+              />
+              {activeScheme ? (
+                <>
+                  {describeClassRanges(activeScheme).map((qualityClass) => (
+                    <div key={qualityClass.label} className="flex items-center gap-2 text-sm">
+                      <div className="w-4 h-4 rounded" style={{ backgroundColor: qualityClass.color }}></div>
+                      <span className="flex-1">{qualityClass.label}</span>
+                      <span className="text-gray-300">{qualityClass.range} {selectedIndicator.unit}</span>
+                    </div>
+                  ))}
+                  {(activeScheme.citation ?? activeProfile.citation) && (
+                    <p className="text-xs text-gray-400">{activeScheme.citation ?? activeProfile.citation}</p>
                   )}
-                </div>
-                <div className="w-8 h-32 rounded-full overflow-hidden">
-                  <div className={`w-full h-full bg-gradient-to-t ${selectedIndicator.color}`}></div>
-                </div>
-                {selectedIndicator.unit && (
-                  <div className="text-xs ml-1 self-center">
-                    {selectedIndicator.unit}
-                  </div>
-                )}
-              </div>
-            )}
-            {selectedIndicator.type !== 'natural' && (
-              <p className="flex-1 ml-4">
-                {selectedIndicator.description}
-              </p>
-            )}
-          </div>
+                </>
+              ) : (
+                <div className="text-yellow-400 italic text-sm">{activeProfile.name} does not classify this parameter</div>
+              )}
+            </div>
+          )}
           <p className="text-sm italic text-gray-300 border-l-2 border-gray-500 pl-3">
             {selectedIndicator.quote}
           </p>
         </div>
       )}
 
+      {isDragOver && (
+        <div className="absolute inset-0 z-[1500] bg-black bg-opacity-50 border-4 border-dashed border-white rounded-xl flex items-center justify-center pointer-events-none">
+          <div className="text-white text-xl font-semibold flex items-center gap-3">
+            <Upload /> Drop KML, KMZ, GPX, GeoJSON or sample CSV/XLSX files
+          </div>
+        </div>
+      )}
+
+      {importResults.length > 0 && (
+        <ImportReport results={importResults} onClose={() => setImportResults([])} />
+      )}
+
+      {showExportDialog && drawnFeatures && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000]">
+          <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+            <h3 className="font-bold text-lg">
+              Export {drawnFeatures.features.length} {drawnFeatures.features.length === 1 ? 'area' : 'areas'}
+            </h3>
+            <button
+              onClick={() => setShowExportDialog(false)}
+              className="text-gray-400 hover:text-white"
+              aria-label="Close export dialog"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('kml')}
+              className="px-4 py-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+            >
+              KML
+            </button>
+            <button
+              onClick={() => handleExport('geojson')}
+              className="px-4 py-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors"
+            >
+              GeoJSON
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selectedArea && (
+        <AreaStatsPanel
+          feature={selectedArea}
+          name={selectedSavedArea?.name}
+          wmsUrl={wmsUrl}
+          layer={selectedLayer || undefined}
+          indicatorName={selectedIndicator?.name}
+          unit={selectedIndicator?.unit}
+          time={wmsTime}
+          scheme={activeScheme}
+          onShowTimeSeries={selectedLayer ? () => {
+            setTimeSeriesTarget({ type: 'area', feature: selectedArea });
+            setShowTransect(false);
+            setShowValidation(false);
+            setFireArea(null);
+          } : undefined}
+          onAnalyzeFires={selectedLayer === forestFires.layer ? () => {
+            setFireArea(selectedArea);
+            setTimeSeriesTarget(null);
+            setIsTimeSeriesMode(false);
+            setShowTransect(false);
+            setShowValidation(false);
+          } : undefined}
+          onSave={selectedSavedArea ? undefined : handleSaveArea}
+          onClose={() => setAreaSelection(null)}
+        />
+      )}
+
+      {showSavedAreas && (
+        <SavedAreasPanel
+          areas={savedAreas}
+          indicators={waterQualityIndicators}
+          isLayerVisible={isSavedAreasLayerVisible}
+          onLayerVisibleChange={setIsSavedAreasLayerVisible}
+          onOpen={(area) => handleOpenSavedArea(area)}
+          onUpdate={persistArea}
+          onDuplicate={(area) => persistArea(duplicateArea(area))}
+          onDelete={handleDeleteArea}
+          onClose={() => setShowSavedAreas(false)}
+        />
+      )}
+
+      {showLayers && (
+        <LayerManager
+          basemap={basemapId}
+          overlays={overlays}
+          activeLayer={selectedLayer}
+          indicators={availableIndicators.filter(hasLayer)}
+          onBasemapChange={setBasemapId}
+          onOverlaysChange={setOverlays}
+          onClose={() => setShowLayers(false)}
+        />
+      )}
+
+      {showReport && leafletMap && selectedIndicator && (
+        <ReportDialog
+          map={leafletMap}
+          basemapUrl={basemap.url}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          layer={selectedLayer || undefined}
+          indicator={selectedIndicator}
+          time={wmsTime}
+          dateLabel={formatAcquisitionWindow(dateRange)}
+          sensorName={sensor.name}
+          scheme={activeScheme}
+          feature={selectedArea}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showOffline && leafletMap && (
+        <OfflinePanel
+          map={leafletMap}
+          area={selectedArea}
+          packs={offlinePacks}
+          basemapUrl={basemap.url}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          layer={selectedLayer || undefined}
+          indicatorName={selectedIndicator.name}
+          time={wmsTime}
+          onPacksChange={handleOfflinePacksChange}
+          onClose={() => setShowOffline(false)}
+        />
+      )}
+
+      {/* The pixel popup stacks above the status bar instead of covering it */}
+      <div className="absolute bottom-4 left-4 z-[1000] flex flex-col items-start gap-2">
+        {pixelInfo && (
+          <div className="bg-black bg-opacity-80 text-white p-4 rounded-xl max-w-sm">
+            <div className="flex flex-col gap-3">
+              <div className="border-b border-gray-600 pb-2 mb-2">
+                <h3 className="font-bold text-lg">{pixelInfo.compare ? 'Compare' : selectedIndicator?.name}</h3>
+              </div>
+              <div className="flex flex-col gap-2">
+                {pixelInfo.compare ? (
+                  // Show both sides and their difference while comparing
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold min-w-[100px]">Coordinates:</span>
+                      <span>{pixelInfo.coordinates[0].toFixed(4)}, {pixelInfo.coordinates[1].toFixed(4)}</span>
+                    </div>
+                    {[pixelInfo.compare.left, pixelInfo.compare.right].map((side, index) => (
+                      <div key={index} className="flex flex-col gap-1 border-t border-gray-700 pt-2">
+                        <span className="text-xs text-gray-300">{index === 0 ? 'Left' : 'Right'}: {side.label}</span>
+                        {side.message ? (
+                          <span className="text-yellow-400 italic text-sm">{side.message}</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span>{formatValue(side.value, side.layer)}</span>
+                            <QualityBadge quality={side.value === null ? null : classify(side.value, activeProfile.parameters[side.layer])} />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {pixelInfo.compare.left.layer === pixelInfo.compare.right.layer &&
+                      pixelInfo.compare.left.value !== null && pixelInfo.compare.right.value !== null && (
+                      <div className="flex items-center gap-2 border-t border-gray-700 pt-2">
+                        <span className="font-semibold min-w-[100px]">Delta:</span>
+                        <span>
+                          {pixelInfo.compare.right.value - pixelInfo.compare.left.value >= 0 ? '+' : ''}
+                          {formatValue(pixelInfo.compare.right.value - pixelInfo.compare.left.value, pixelInfo.compare.left.layer)}
+                        </span>
+                      </div>
+                    )}
+                  </>
+                ) : pixelInfo.message ? (
+                  // Show suggestion message for Natural Color, or why a pixel has no value
+                  <>
+                    <div className="text-yellow-400 italic">
+                      {pixelInfo.message}
+                    </div>
+                    {selectedIndicator?.type !== 'natural' && (
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold min-w-[100px]">Coordinates:</span>
+                        <span>{pixelInfo.coordinates[0].toFixed(4)}, {pixelInfo.coordinates[1].toFixed(4)}</span>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  // Show regular pixel info for water parameters
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold min-w-[100px]">Coordinates:</span>
+                      <span>{pixelInfo.coordinates[0].toFixed(4)}, {pixelInfo.coordinates[1].toFixed(4)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold min-w-[100px]">Value:</span>
+                      <span>{formatValue(pixelInfo.value, selectedLayer)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold min-w-[100px]">Quality:</span>
+                      <QualityBadge quality={pixelInfo.value === null ? null : classify(pixelInfo.value, activeScheme)} />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <ConnectionStatus />
+          {leafletMap && <CoordinateReadout map={leafletMap} />}
+        </div>
+      </div>
+
+      {showDrawPalette && leafletMap && (
+        <DrawPalette
+          map={leafletMap}
+          tool={drawTool}
+          actions={drawActions}
+          snapping={isSnapping}
+          onToolChange={setDrawTool}
+          onSnappingChange={setIsSnapping}
+          onClose={toggleDrawPalette}
+        />
+      )}
+
+      {showDashboard && (
+        <Dashboard
+          areas={savedAreas}
+          profile={activeProfile}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          indicators={dashboardIndicators}
+          onOpenArea={handleOpenSavedArea}
+          onClose={() => openDashboard(false)}
+        />
+      )}
+
+      {showValidation && (
+        <ValidationPanel
+          imports={sampleImports}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          indicators={availableIndicators.filter(hasLayer)}
+          selectedLayer={selectedLayer}
+          onImport={() => fileInputRef.current?.click()}
+          onClear={() => setSampleImports([])}
+          onClose={() => setShowValidation(false)}
+        />
+      )}
+
+      {showTransect && leafletMap && selectedLayer && selectedIndicator?.type !== 'natural' && (
+        <TransectPanel
+          map={leafletMap}
+          wmsUrl={wmsUrl}
+          layer={selectedLayer}
+          indicatorName={selectedIndicator.name}
+          unit={selectedIndicator.unit}
+          time={wmsTime}
+          scheme={activeScheme}
+          onClose={() => setShowTransect(false)}
+        />
+      )}
+
+      {fireArea && leafletMap && selectedLayer === forestFires.layer && (
+        <FireEventsPanel
+          map={leafletMap}
+          feature={fireArea}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          layer={selectedLayer}
+          time={wmsTime}
+          onClose={() => setFireArea(null)}
+        />
+      )}
+
+      {timeSeriesTarget && selectedLayer && selectedIndicator?.type !== 'natural' && (
+        <TimeSeriesPanel
+          target={timeSeriesTarget}
+          wmsUrl={wmsUrl}
+          sceneTypename={sensor.sceneTypename}
+          layer={selectedLayer}
+          indicatorName={selectedIndicator.name}
+          unit={selectedIndicator.unit}
+          time={wmsTime}
+          scheme={activeScheme}
+          onClose={() => setTimeSeriesTarget(null)}
+        />
+      )}
+
       {isLoading && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[2000]">
           <div className="loader">
@@ -691,47 +1793,6 @@ export function Map({ center = [20.2700, -103.2000], zoom = 12 }: MapProps) {
           </div>
         </div>
       )}
-
-      {pixelInfo && (
-        <div className="absolute bottom-4 left-4 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] max-w-sm">
-          <div className="flex flex-col gap-3">
-            <div className="border-b border-gray-600 pb-2 mb-2">
-              <h3 className="font-bold text-lg">{selectedIndicator?.name}</h3>
-            </div>
-            <div className="flex flex-col gap-2">
-              {pixelInfo.message ? (
-                // Show suggestion message for Natural Color
-                <div className="text-yellow-400 italic">
-                  {pixelInfo.message}
-                </div>
-              ) : (
-                // Show regular pixel info for water parameters
-                <>
-                  <div className="flex items-center gap-2">
-                    <span className="font-semibold min-w-[100px]">Coordinates:</span>
-                    <span>{pixelInfo.coordinates[0].toFixed(4)}, {pixelInfo.coordinates[1].toFixed(4)}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="font-semibold min-w-[100px]">Value:</span>
-                    <span>{formatValue(pixelInfo.value, selectedLayer)}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="font-semibold min-w-[100px]">Quality:</span>
-                    <span className={`px-2 py-1 rounded-full text-sm ${
-                      pixelInfo.quality === 'Good' ? 'bg-green-500' :
-                      pixelInfo.quality === 'Medium' ? 'bg-yellow-500' :
-                      pixelInfo.quality === 'Poor' ? 'bg-red-500' :
-                      'bg-gray-500'
-                    }`}>
-                      {pixelInfo.quality}
-                    </span>
-                  </div>
-                </>
-              )}
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
\ No newline at end of file
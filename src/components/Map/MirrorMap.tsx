@@ -0,0 +1,45 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { MapContainer } from 'react-leaflet';
+import L from 'leaflet';
+
+interface MirrorMapProps {
+  source: L.Map;
+  className?: string;
+  children: ReactNode;
+}
+
+// A passive second map that follows the pan and zoom of the source map
+export function MirrorMap({ source, className, children }: MirrorMapProps) {
+  const [mirror, setMirror] = useState<L.Map | null>(null);
+
+  useEffect(() => {
+    if (!mirror) return;
+    const sync = () => {
+      mirror.setView(source.getCenter(), source.getZoom(), { animate: false });
+    };
+    sync();
+    source.on('move', sync);
+    return () => {
+      source.off('move', sync);
+    };
+  }, [source, mirror]);
+
+  return (
+    <MapContainer
+      ref={setMirror}
+      center={source.getCenter()}
+      zoom={source.getZoom()}
+      className={className}
+      zoomControl={false}
+      attributionControl={false}
+      dragging={false}
+      scrollWheelZoom={false}
+      doubleClickZoom={false}
+      touchZoom={false}
+      boxZoom={false}
+      keyboard={false}
+    >
+      {children}
+    </MapContainer>
+  );
+}
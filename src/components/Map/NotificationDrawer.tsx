@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, MapPin, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  AlertEvent,
+  AlertMetric,
+  AlertOperator,
+  AlertRule,
+  countUnread,
+  describeRule,
+} from '../../lib/alerts';
+import type { SavedArea } from '../../lib/savedAreas';
+
+interface AlertIndicator {
+  name: string;
+  layer: string;
+  unit?: string;
+}
+
+interface NotificationDrawerProps {
+  events: AlertEvent[];
+  rules: AlertRule[];
+  areas: SavedArea[];
+  indicators: AlertIndicator[];
+  isChecking: boolean;
+  onAddRule: (rule: AlertRule) => void;
+  onRuleChange: (rule: AlertRule) => void;
+  onDeleteRule: (rule: AlertRule) => void;
+  onAcknowledge: (event: AlertEvent) => void;
+  onAcknowledgeAll: () => void;
+  onView: (event: AlertEvent) => void;
+  onCheckNow: () => void;
+  onClose: () => void;
+}
+
+export function NotificationDrawer({
+  events,
+  rules,
+  areas,
+  indicators,
+  isChecking,
+  onAddRule,
+  onRuleChange,
+  onDeleteRule,
+  onAcknowledge,
+  onAcknowledgeAll,
+  onView,
+  onCheckNow,
+  onClose,
+}: NotificationDrawerProps) {
+  const [tab, setTab] = useState<'alerts' | 'rules'>('alerts');
+  const [areaId, setAreaId] = useState('');
+  const [layer, setLayer] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('mean');
+  const [operator, setOperator] = useState<AlertOperator>('>');
+  const [threshold, setThreshold] = useState('');
+
+  // Fall back to the first option when the chosen one has since been removed
+  const ruleAreaId = areas.some((area) => area.id === areaId) ? areaId : areas[0]?.id ?? '';
+  const ruleLayer = indicators.some((indicator) => indicator.layer === layer) ? layer : indicators[0]?.layer ?? '';
+
+  const areaName = (id: string) => areas.find((area) => area.id === id)?.name ?? 'Deleted area';
+  const unitOf = (indicatorLayer: string) => indicators.find((indicator) => indicator.layer === indicatorLayer)?.unit;
+  const unread = countUnread(events);
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(threshold);
+    if (!ruleAreaId || !ruleLayer || threshold.trim() === '' || !Number.isFinite(value)) return;
+    onAddRule({ id: crypto.randomUUID(), areaId: ruleAreaId, layer: ruleLayer, metric, operator, threshold: value, enabled: true });
+    setThreshold('');
+  };
+
+  const selectClass = 'bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none';
+
+  return (
+    <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto bg-black bg-opacity-90 rounded-xl shadow-lg p-4 z-50 text-white">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <div className="flex items-center gap-2">
+          {(['alerts', 'rules'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                tab === value ? 'bg-blue-500' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+              }`}
+            >
+              {value === 'alerts' ? `Alerts${unread > 0 ? ` (${unread})` : ''}` : 'Rules'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCheckNow}
+            disabled={isChecking}
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+            title="Check for new acquisitions now"
+          >
+            <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close notifications">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {tab === 'alerts' ? (
+        <div className="flex flex-col gap-2 text-sm">
+          {events.length === 0 ? (
+            <div className="text-gray-400 italic">No alerts yet</div>
+          ) : (
+            unread > 0 && (
+              <button onClick={onAcknowledgeAll} className="self-end text-xs text-gray-300 hover:text-white">
+                Acknowledge all
+              </button>
+            )
+          )}
+          {events.map((event) => (
+            <div
+              key={event.id}
+              className={`rounded-lg p-2 ${event.acknowledged ? 'bg-white bg-opacity-5 text-gray-400' : 'bg-white bg-opacity-10'}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className={event.acknowledged ? '' : 'font-semibold'}>{event.message}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{format(parseISO(event.date), 'd MMM yyyy')}</span>
+              </div>
+              <div className="flex justify-end gap-3 mt-1 text-gray-400">
+                <button onClick={() => onView(event)} className="flex items-center gap-1 hover:text-white">
+                  <MapPin className="w-4 h-4" /> View
+                </button>
+                {!event.acknowledged && (
+                  <button onClick={() => onAcknowledge(event)} className="flex items-center gap-1 hover:text-white">
+                    <Check className="w-4 h-4" /> Acknowledge
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3 text-sm">
+          {areas.length === 0 ? (
+            <div className="text-yellow-400 italic">Save an area of interest to define alert rules for it</div>
+          ) : (
+            <form onSubmit={handleAddRule} className="flex flex-col gap-2">
+              <div className="flex gap-2">
+                <select value={ruleAreaId} onChange={(e) => setAreaId(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+                  {areas.map((area) => (
+                    <option key={area.id} value={area.id} className="text-black">{area.name}</option>
+                  ))}
+                </select>
+                <select value={ruleLayer} onChange={(e) => setLayer(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+                  {indicators.map((indicator) => (
+                    <option key={indicator.layer} value={indicator.layer} className="text-black">{indicator.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className={selectClass}>
+                  {(Object.keys(ALERT_METRICS) as AlertMetric[]).map((value) => (
+                    <option key={value} value={value} className="text-black">{ALERT_METRICS[value]}</option>
+                  ))}
+                </select>
+                <select value={operator} onChange={(e) => setOperator(e.target.value as AlertOperator)} className={selectClass}>
+                  {ALERT_OPERATORS.map((value) => (
+                    <option key={value} value={value} className="text-black">{value}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder={unitOf(ruleLayer) ?? 'Value'}
+                  className={`${selectClass} flex-1 min-w-0`}
+                />
+                <button
+                  type="submit"
+                  disabled={threshold.trim() === ''}
+                  className="px-2 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+                  aria-label="Add rule"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </form>
+          )}
+
+          {rules.length === 0 && areas.length > 0 && <div className="text-gray-400 italic">No alert rules yet</div>}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-2 bg-white bg-opacity-10 rounded-lg p-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => onRuleChange({ ...rule, enabled: e.target.checked })}
+                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold truncate">{areaName(rule.areaId)}</div>
+                <div className="text-xs text-gray-300">
+                  {describeRule(rule, unitOf(rule.layer))}
+                  {rule.lastCheckedDate && ` · checked up to ${format(parseISO(rule.lastCheckedDate), 'd MMM')}`}
+                </div>
+              </div>
+              <button onClick={() => onDeleteRule(rule)} className="text-gray-400 hover:text-red-400" aria-label="Delete rule">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { format, parseISO } from 'date-fns';
+import { DownloadCloud, MapPin, Trash2, X } from 'lucide-react';
+import { fetchAcquisitionDates } from '../../lib/acquisitions';
+import type { AreaFeature } from '../../lib/areaStats';
+import {
+  allowsOfflineUse,
+  clearRuntimeTiles,
+  countPackTiles,
+  deletePackTiles,
+  downloadPack,
+  estimateStorage,
+  formatBytes,
+  isOfflineReady,
+  MAX_PACK_TILES,
+  OfflinePack,
+} from '../../lib/offline';
+
+interface OfflinePanelProps {
+  map: L.Map;
+  area?: AreaFeature | null;
+  packs: OfflinePack[];
+  basemapUrl?: string;
+  wmsUrl: string;
+  sceneTypename?: string;
+  layer?: string;
+  indicatorName?: string;
+  time?: string;
+  onPacksChange: (packs: OfflinePack[]) => void;
+  onClose: () => void;
+}
+
+// Deepest level the basemap is downloaded to
+const MAX_ZOOM = 18;
+
+const toBounds = (bounds: L.LatLngBounds): [number, number, number, number] =>
+  [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+
+const describeTime = (time: string) =>
+  !time ? 'Latest' : time.includes('/') ? time.split('/').map((date) => format(parseISO(date), 'd MMM')).join(' – ') : format(parseISO(time), 'd MMM yyyy');
+
+export function OfflinePanel({
+  map,
+  area,
+  packs,
+  basemapUrl,
+  wmsUrl,
+  sceneTypename,
+  layer,
+  indicatorName,
+  time,
+  onPacksChange,
+  onClose,
+}: OfflinePanelProps) {
+  const [name, setName] = useState(area?.properties?.name ?? '');
+  const [depth, setDepth] = useState(2);
+  const [acquisitionDates, setAcquisitionDates] = useState<string[]>([]);
+  const [times, setTimes] = useState<string[]>([time ?? '']);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const bounds = area ? L.geoJSON(area).getBounds() : map.getBounds();
+  const minZoom = Math.round(map.getZoom());
+  const maxZoom = Math.min(MAX_ZOOM, minZoom + depth);
+  const tileCount = countPackTiles({ bounds: toBounds(bounds), minZoom, maxZoom, basemapUrl, layer, times });
+  const isOnline = navigator.onLine;
+  const includesBasemap = !!basemapUrl && allowsOfflineUse(basemapUrl);
+
+  const refreshStorage = () => {
+    estimateStorage().then(setStorage).catch((err) => console.error('Error estimating storage:', err));
+  };
+
+  useEffect(refreshStorage, [packs]);
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Individual acquisitions of the selected range can be taken along too
+  useEffect(() => {
+    setTimes([time ?? '']);
+    setAcquisitionDates([]);
+    if (!layer || !time?.includes('/')) return;
+    const controller = new AbortController();
+    fetchAcquisitionDates(wmsUrl, { bounds: area ? L.geoJSON(area).getBounds() : map.getBounds(), time, typename: sceneTypename, signal: controller.signal })
+      .then(({ dates }) => setAcquisitionDates(dates))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching acquisition dates:', err);
+      });
+    return () => controller.abort();
+  }, [map, area, wmsUrl, sceneTypename, layer, time]);
+
+  const toggleTime = (value: string) =>
+    setTimes((current) => (current.includes(value) ? current.filter((candidate) => candidate !== value) : [...current, value]));
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setError(null);
+    setProgress([0, tileCount]);
+
+    try {
+      const pack = await downloadPack(
+        {
+          name: name.trim() || `Area around ${bounds.getCenter().lat.toFixed(3)}, ${bounds.getCenter().lng.toFixed(3)}`,
+          bounds: toBounds(bounds),
+          minZoom,
+          maxZoom,
+          basemapUrl,
+          wmsUrl,
+          layer,
+          times,
+        },
+        (done, total) => setProgress([done, total]),
+        controller.signal
+      );
+      onPacksChange([pack, ...packs]);
+      if (pack.failed > 0) setError(`${pack.failed} tiles could not be downloaded`);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error downloading offline pack:', err);
+        setError('Could not download this area');
+      }
+    }
+    setProgress(null);
+  };
+
+  const handleDelete = async (pack: OfflinePack) => {
+    await deletePackTiles(pack);
+    onPacksChange(packs.filter((candidate) => candidate.id !== pack.id));
+  };
+
+  const handleShow = (pack: OfflinePack) => {
+    const [west, south, east, north] = pack.bounds;
+    map.fitBounds([[south, west], [north, east]]);
+  };
+
+  return (
+    <div className="absolute top-28 left-4 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-96 max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Offline areas</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close offline areas">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {storage && storage.quota > 0 && (
+        <div className="mb-3 text-xs text-gray-300">
+          <div className="flex justify-between mb-1">
+            <span>Storage used</span>
+            <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)}</span>
+          </div>
+          <div className="h-2 bg-white bg-opacity-10 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}></div>
+          </div>
+          <button
+            onClick={() => clearRuntimeTiles().then(refreshStorage)}
+            className="mt-1 text-gray-400 hover:text-white"
+            title="Tiles kept while browsing; downloaded areas stay"
+          >
+            Clear recently viewed tiles
+          </button>
+        </div>
+      )}
+
+      {!isOfflineReady() ? (
+        <div className="text-yellow-400 italic text-sm mb-3">
+          Offline support starts after the app is reloaded once
+        </div>
+      ) : (
+        <form onSubmit={handleDownload} className="flex flex-col gap-2 text-sm mb-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={area ? 'Area name' : 'Name for the current view'}
+            className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+          />
+          <label className="flex items-center justify-between gap-2">
+            <span>Detail</span>
+            <select
+              value={depth}
+              onChange={(e) => setDepth(Number(e.target.value))}
+              className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+            >
+              {[0, 1, 2, 3, 4].map((value) => (
+                <option key={value} value={value} className="text-black">
+                  Zoom {minZoom} to {Math.min(MAX_ZOOM, minZoom + value)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {layer ? (
+            <div className="flex flex-col gap-1">
+              <span>{indicatorName} dates</span>
+              {[time ?? '', ...acquisitionDates].map((value) => (
+                <label key={value} className="flex items-center gap-2 text-gray-300">
+                  <input type="checkbox" checked={times.includes(value)} onChange={() => toggleTime(value)} />
+                  {describeTime(value)}{value === (time ?? '') && ' (as shown)'}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <div className="text-gray-400 italic">
+              Select a parameter to take its layer along{includesBasemap && '; only the basemap is saved now'}
+            </div>
+          )}
+          {basemapUrl && !includesBasemap && (
+            <div className="text-yellow-400 italic">
+              OpenStreetMap's tile usage policy doesn't allow saving its Streets tiles offline. Switch to Satellite or Terrain to take a basemap along.
+            </div>
+          )}
+          <div className={`text-xs ${tileCount > MAX_PACK_TILES ? 'text-yellow-400' : 'text-gray-400'}`}>
+            {tileCount} tiles{tileCount > MAX_PACK_TILES && ` — the limit is ${MAX_PACK_TILES}, lower the detail or zoom in`}
+          </div>
+          {progress ? (
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-2 bg-white bg-opacity-10 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${(progress[0] / Math.max(1, progress[1])) * 100}%` }}></div>
+              </div>
+              <button type="button" onClick={() => requestRef.current?.abort()} className="text-gray-400 hover:text-white">
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              type="submit"
+              disabled={!isOnline || tileCount === 0 || tileCount > MAX_PACK_TILES}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <DownloadCloud className="w-4 h-4" /> Download {area ? 'area' : 'current view'}
+            </button>
+          )}
+          {error && <div className="text-yellow-400 italic">{error}</div>}
+        </form>
+      )}
+
+      <div className="flex flex-col gap-2 text-sm">
+        {packs.length === 0 && <div className="text-gray-400 italic">No areas downloaded yet</div>}
+        {packs.map((pack) => (
+          <div key={pack.id} className="flex items-start gap-2 bg-white bg-opacity-10 rounded-lg p-2">
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold truncate">{pack.name}</div>
+              <div className="text-xs text-gray-300">
+                {pack.tiles} tiles · {formatBytes(pack.bytes)} · zoom {pack.minZoom}–{pack.maxZoom}
+              </div>
+              {pack.layer && (
+                <div className="text-xs text-gray-400 truncate">
+                  {pack.layer}: {pack.times.map(describeTime).join(', ')}
+                </div>
+              )}
+            </div>
+            <button onClick={() => handleShow(pack)} className="text-gray-400 hover:text-white" aria-label="Show on map">
+              <MapPin className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(pack)} className="text-gray-400 hover:text-red-400" aria-label="Delete offline area">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
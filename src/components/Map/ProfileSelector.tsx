@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { downloadFile } from '../../lib/download';
+import { ClassificationProfile, parseProfile } from '../../lib/waterQuality';
+
+interface ProfileSelectorProps {
+  profiles: ClassificationProfile[];
+  activeProfile: ClassificationProfile;
+  isCustom: (profile: ClassificationProfile) => boolean;
+  onSelect: (profile: ClassificationProfile) => void;
+  onImport: (profile: ClassificationProfile) => void;
+  onDelete: (profile: ClassificationProfile) => void;
+}
+
+export function ProfileSelector({ profiles, activeProfile, isCustom, onSelect, onImport, onDelete }: ProfileSelectorProps) {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    try {
+      onImport(parseProfile(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read profile');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold">Classification:</span>
+        <select
+          value={activeProfile.id}
+          onChange={(e) => {
+            const profile = profiles.find((candidate) => candidate.id === e.target.value);
+            if (profile) onSelect(profile);
+          }}
+          className="flex-1 min-w-0 bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+        >
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id} className="text-black">
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-end gap-3 text-gray-400">
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 hover:text-white" title="Import a profile from JSON">
+          <Upload className="w-4 h-4" /> Import
+        </button>
+        <button
+          onClick={() => downloadFile(JSON.stringify(activeProfile, null, 2), `${activeProfile.id}.json`, 'application/json')}
+          className="flex items-center gap-1 hover:text-white"
+          title="Export this profile as JSON"
+        >
+          <Download className="w-4 h-4" /> Export
+        </button>
+        {isCustom(activeProfile) && (
+          <button onClick={() => onDelete(activeProfile)} className="hover:text-red-400" title="Remove this imported profile">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleImport(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <div className="text-yellow-400 italic text-xs">{error}</div>}
+    </div>
+  );
+}
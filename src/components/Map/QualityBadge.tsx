@@ -0,0 +1,16 @@
+import type { QualityClass } from '../../lib/waterQuality';
+
+interface QualityBadgeProps {
+  quality: QualityClass | null;
+}
+
+export function QualityBadge({ quality }: QualityBadgeProps) {
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-sm ${quality ? '' : 'bg-gray-500'}`}
+      style={quality ? { backgroundColor: quality.color } : undefined}
+    >
+      {quality?.label ?? 'Unknown'}
+    </span>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type L from 'leaflet';
+import { format, parseISO } from 'date-fns';
+import { FileText, X } from 'lucide-react';
+import { BandedLineChart } from '../Chart/BandedLineChart';
+import { AreaFeature, fetchAreaStatistics, measureArea } from '../../lib/areaStats';
+import { renderMapSnapshot } from '../../lib/mapSnapshot';
+import type { Indicator } from '../../lib/indicators';
+import { drawAreaOutline, exportReport, fetchReportLegend, ReportContent, ReportFormat, svgToImage } from '../../lib/report';
+import { fetchTimeSeries } from '../../lib/timeSeries';
+import { computeClassShares, describeClassRanges, getQualityBands, ParameterScheme } from '../../lib/waterQuality';
+
+interface ReportDialogProps {
+  map: L.Map;
+  basemapUrl?: string;
+  wmsUrl: string;
+  sceneTypename?: string;
+  layer?: string;
+  indicator: Indicator;
+  time?: string;
+  dateLabel: string;
+  sensorName: string;
+  scheme?: ParameterScheme;
+  feature?: AreaFeature | null;
+  onClose: () => void;
+}
+
+// The PNG is rendered at twice the PDF resolution
+const SNAPSHOT_SCALE: Record<ReportFormat, number> = { pdf: 1, png: 2 };
+
+export function ReportDialog({
+  map,
+  basemapUrl,
+  wmsUrl,
+  sceneTypename,
+  layer,
+  indicator,
+  time,
+  dateLabel,
+  sensorName,
+  scheme,
+  feature,
+  onClose,
+}: ReportDialogProps) {
+  const [title, setTitle] = useState(feature?.properties?.name ?? `${indicator.name} report`);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('pdf');
+  const [includeTimeSeries, setIncludeTimeSeries] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const canSample = Boolean(feature && layer);
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setError(null);
+
+    try {
+      setStatus('Rendering map...');
+      const scale = SNAPSHOT_SCALE[reportFormat];
+      const snapshot = await renderMapSnapshot(map, {
+        basemapUrl,
+        overlays: layer ? [{ url: wmsUrl, layer, time }] : [],
+        scale,
+      });
+      if (feature) drawAreaOutline(snapshot, map, feature, scale);
+
+      const content: ReportContent = {
+        title: title.trim() || `${indicator.name} report`,
+        indicatorName: indicator.name,
+        unit: indicator.unit,
+        subtitle: `${indicator.name} · ${dateLabel} · ${sensorName} · generated ${format(new Date(), 'd MMM yyyy HH:mm')}`,
+        description: indicator.description,
+        quote: [indicator.quote, scheme?.citation].filter(Boolean).join(' '),
+        map: snapshot,
+        legend: await fetchReportLegend(indicator, wmsUrl, controller.signal),
+        classification: scheme ? describeClassRanges(scheme) : undefined,
+      };
+
+      if (feature && layer) {
+        content.measurements = measureArea(feature);
+        setStatus('Sampling area statistics...');
+        content.stats = await fetchAreaStatistics(
+          { url: wmsUrl, layer, time, signal: controller.signal },
+          feature,
+          (done, total) => setStatus(`Sampling area statistics ${done}/${total}...`)
+        );
+        content.classShares = computeClassShares(content.stats.values, scheme);
+
+        if (includeTimeSeries && time) {
+          setStatus('Loading time series...');
+          const series = await fetchTimeSeries(
+            { url: wmsUrl, layer, time, typename: sceneTypename, signal: controller.signal },
+            { type: 'area', feature },
+            (done, total) => setStatus(`Loading time series ${done}/${total}...`)
+          );
+          if (series.length > 0) {
+            // currentColor falls back to black outside the page, which suits print
+            const markup = renderToStaticMarkup(
+              <BandedLineChart
+                points={series.map((point) => ({ x: parseISO(point.date).getTime(), y: point.value }))}
+                bands={getQualityBands(scheme)}
+                formatX={(x) => format(x, 'd MMM')}
+                unit={indicator.unit}
+              />
+            );
+            content.chart = await svgToImage(markup, 1200, 440);
+          }
+        }
+      }
+
+      setStatus('Building report...');
+      const filename = content.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+      await exportReport(content, reportFormat, filename);
+      setStatus(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error generating report:', err);
+      setError('Could not generate the report');
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-96 max-w-[90vw]">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Report</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close report">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <form onSubmit={handleGenerate} className="flex flex-col gap-3 text-sm">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Report title"
+          className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+        />
+        <div className="flex gap-2">
+          {(['pdf', 'png'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setReportFormat(value)}
+              className={`flex-1 px-3 py-1 rounded-lg transition-colors ${
+                reportFormat === value ? 'bg-blue-500' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+              }`}
+            >
+              {value === 'pdf' ? 'PDF (A4)' : 'PNG (high resolution)'}
+            </button>
+          ))}
+        </div>
+        {canSample ? (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeTimeSeries}
+              onChange={(e) => setIncludeTimeSeries(e.target.checked)}
+              disabled={!time}
+            />
+            Include the area time series
+          </label>
+        ) : (
+          <div className="text-yellow-400 italic">
+            Select an area and a water quality parameter to add statistics to the report
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={status !== null}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <FileText className="w-4 h-4" /> {status ?? 'Generate report'}
+        </button>
+        {error && <div className="text-yellow-400 italic">{error}</div>}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Copy, Eye, EyeOff, MapPin, Pencil, Trash2, X } from 'lucide-react';
+import { measureArea } from '../../lib/areaStats';
+import type { LayerIndicator } from '../../lib/indicators';
+import { parseTags, SavedArea, updateArea } from '../../lib/savedAreas';
+
+interface SavedAreasPanelProps {
+  areas: SavedArea[];
+  // Indicators an area can prefer
+  indicators: LayerIndicator[];
+  isLayerVisible: boolean;
+  onLayerVisibleChange: (visible: boolean) => void;
+  onOpen: (area: SavedArea) => void;
+  onUpdate: (area: SavedArea) => void;
+  onDuplicate: (area: SavedArea) => void;
+  onDelete: (area: SavedArea) => void;
+  onClose: () => void;
+}
+
+interface AreaDraft {
+  name: string;
+  description: string;
+  tags: string;
+  indicators: string[];
+}
+
+export function SavedAreasPanel({
+  areas,
+  indicators,
+  isLayerVisible,
+  onLayerVisibleChange,
+  onOpen,
+  onUpdate,
+  onDuplicate,
+  onDelete,
+  onClose,
+}: SavedAreasPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AreaDraft>({ name: '', description: '', tags: '', indicators: [] });
+
+  const startEditing = (area: SavedArea) => {
+    setEditingId(area.id);
+    setDraft({ name: area.name, description: area.description, tags: area.tags.join(', '), indicators: area.indicators });
+  };
+
+  const toggleIndicator = (layer: string) =>
+    setDraft({
+      ...draft,
+      indicators: draft.indicators.includes(layer)
+        ? draft.indicators.filter((candidate) => candidate !== layer)
+        : [...draft.indicators, layer],
+    });
+
+  const indicatorNames = (area: SavedArea) =>
+    indicators.filter((indicator) => area.indicators.includes(indicator.layer)).map((indicator) => indicator.name);
+
+  const handleSubmit = (e: React.FormEvent, area: SavedArea) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    onUpdate(updateArea(area, {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tags: parseTags(draft.tags),
+      indicators: draft.indicators,
+    }));
+    setEditingId(null);
+  };
+
+  const handleDelete = (area: SavedArea) => {
+    if (window.confirm(`Delete "${area.name}"?`)) onDelete(area);
+  };
+
+  return (
+    <div className="absolute top-28 left-4 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-80 max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg">Areas of interest</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onLayerVisibleChange(!isLayerVisible)}
+            className="text-gray-400 hover:text-white"
+            title={isLayerVisible ? 'Hide areas on the map' : 'Show areas on the map'}
+          >
+            {isLayerVisible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close areas of interest">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {areas.length === 0 && (
+        <div className="text-yellow-400 italic text-sm">
+          No saved areas yet. Select a drawn or imported area and save it.
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-2 text-sm">
+        {areas.map((area) => (
+          <li key={area.id} className="bg-white bg-opacity-10 rounded-lg p-2">
+            {editingId === area.id ? (
+              <form onSubmit={(e) => handleSubmit(e, area)} className="flex flex-col gap-2">
+                <input
+                  autoFocus
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Name"
+                  className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+                />
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Description"
+                  rows={2}
+                  className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none resize-none"
+                />
+                <input
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  placeholder="Tags, comma separated"
+                  className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+                />
+                {indicators.length > 0 && (
+                  <fieldset className="flex flex-col gap-1">
+                    <legend className="text-xs text-gray-400 mb-1">Indicators to summarize, none for all</legend>
+                    {indicators.map((indicator) => (
+                      <label key={indicator.layer} className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={draft.indicators.includes(indicator.layer)}
+                          onChange={() => toggleIndicator(indicator.layer)}
+                        />
+                        {indicator.name}
+                      </label>
+                    ))}
+                  </fieldset>
+                )}
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-gray-300 hover:text-white">
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!draft.name.trim()}
+                    className="px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <div className="flex items-start justify-between gap-2">
+                  <button onClick={() => onOpen(area)} className="text-left font-semibold hover:underline">
+                    {area.name}
+                  </button>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {(measureArea(area.feature).areaM2 / 10000).toFixed(1)} ha
+                  </span>
+                </div>
+                {area.description && <div className="text-gray-300 text-xs mt-1">{area.description}</div>}
+                {indicatorNames(area).length > 0 && (
+                  <div className="text-gray-400 text-xs mt-1">{indicatorNames(area).join(', ')}</div>
+                )}
+                {area.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {area.tags.map((tag) => (
+                      <span key={tag} className="px-2 py-0.5 bg-blue-500 bg-opacity-60 rounded-full text-xs">{tag}</span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex justify-end gap-3 mt-2 text-gray-400">
+                  <button onClick={() => onOpen(area)} className="hover:text-white" title="Show on map">
+                    <MapPin className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => startEditing(area)} className="hover:text-white" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDuplicate(area)} className="hover:text-white" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(area)} className="hover:text-red-400" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
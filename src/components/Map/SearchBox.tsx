@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { MapPin, Search, X } from 'lucide-react';
+import { GeocodeResult, geocoder, MIN_QUERY_LENGTH, parseCoordinates } from '../../lib/geocoder';
+
+interface SearchBoxProps {
+  onSelect: (result: GeocodeResult) => void;
+}
+
+// Wait for typing to pause before asking the geocoder
+const DEBOUNCE_MS = 400;
+
+export function SearchBox({ onSelect }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCoordinates = parseCoordinates(query) !== null;
+
+  useEffect(() => {
+    setActiveIndex(-1);
+    setError(null);
+    if (query.trim().length < MIN_QUERY_LENGTH && !isCoordinates) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    // Aborting drops responses to older queries, so they can't arrive out of order
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      geocoder.search(query, controller.signal)
+        .then((found) => {
+          setResults(found);
+          setIsSearching(false);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error('Search error:', err);
+          setResults([]);
+          setError('Search is unavailable right now');
+          setIsSearching(false);
+        });
+    }, isCoordinates ? 0 : DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, isCoordinates]);
+
+  const handleSelect = (result: GeocodeResult) => {
+    onSelect(result);
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? results.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && results.length > 0) {
+      e.preventDefault();
+      handleSelect(results[Math.max(0, activeIndex)]);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-80 bg-black bg-opacity-90 rounded-xl shadow-lg p-4 z-50">
+      <div className="flex items-center gap-2 mb-4">
+        <Search className="w-4 h-4 text-gray-400" />
+        <input
+          autoFocus
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search places or coordinates..."
+          className="flex-1 bg-transparent border-none outline-none text-white placeholder-gray-400"
+          role="combobox"
+          aria-expanded={results.length > 0}
+          aria-controls="search-results"
+          aria-activedescendant={activeIndex >= 0 ? `search-result-${activeIndex}` : undefined}
+        />
+        {query && (
+          <button onClick={() => setQuery('')} className="text-gray-400 hover:text-white" aria-label="Clear search">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isSearching && (
+        <div className="text-center text-gray-400 py-2">
+          Searching...
+        </div>
+      )}
+
+      {!isSearching && results.length > 0 && (
+        <div id="search-results" role="listbox" className="space-y-2">
+          {results.map((result, index) => (
+            <button
+              key={result.id}
+              id={`search-result-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onClick={() => handleSelect(result)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`w-full flex items-center gap-2 text-left px-3 py-2 text-white rounded-lg transition-colors text-sm ${
+                index === activeIndex ? 'bg-white bg-opacity-20' : 'hover:bg-white hover:bg-opacity-20'
+              }`}
+            >
+              {result.id.startsWith('coordinates:') && <MapPin className="w-4 h-4 flex-shrink-0" />}
+              <span className="truncate">{result.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-yellow-400 italic text-sm">{error}</div>}
+
+      {!isSearching && !error && query.trim().length >= MIN_QUERY_LENGTH && results.length === 0 && (
+        <div className="text-center text-gray-400 py-2">
+          No results found
+        </div>
+      )}
+    </div>
+  );
+}
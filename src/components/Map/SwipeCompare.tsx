@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { useMap } from 'react-leaflet';
+
+export const SWIPE_LEFT_PANE = 'swipe-left';
+export const SWIPE_RIGHT_PANE = 'swipe-right';
+
+interface SwipeClipProps {
+  // Divider position as a fraction of the map width
+  position: number;
+}
+
+// Creates the two overlay panes and clips each to its side of the divider.
+// Must render before the layers that use the panes.
+export function SwipeClip({ position }: SwipeClipProps) {
+  const map = useMap();
+  const [panes] = useState(() =>
+    [SWIPE_LEFT_PANE, SWIPE_RIGHT_PANE].map((name) => {
+      const pane = map.getPane(name) ?? map.createPane(name);
+      pane.style.zIndex = '250';
+      return pane;
+    })
+  );
+
+  useEffect(() => {
+    const [left, right] = panes;
+    const update = () => {
+      // Panes are translated while panning, so clip in layer coordinates
+      const nw = map.containerPointToLayerPoint([0, 0]);
+      const se = map.containerPointToLayerPoint(map.getSize());
+      const x = nw.x + map.getSize().x * position;
+      left.style.clip = `rect(${nw.y}px, ${x}px, ${se.y}px, ${nw.x}px)`;
+      right.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${x}px)`;
+    };
+
+    update();
+    map.on('move resize', update);
+    return () => {
+      map.off('move resize', update);
+      left.style.clip = '';
+      right.style.clip = '';
+    };
+  }, [map, panes, position]);
+
+  return null;
+}
+
+interface SwipeDividerProps {
+  position: number;
+  leftLabel: string;
+  rightLabel: string;
+  onChange: (position: number) => void;
+}
+
+export function SwipeDivider({ position, leftLabel, rightLabel, onChange }: SwipeDividerProps) {
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const container = e.currentTarget.parentElement;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+
+    const handleMove = (event: PointerEvent) => {
+      onChange(Math.min(0.98, Math.max(0.02, (event.clientX - rect.left) / rect.width)));
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[900] pointer-events-none">
+      <div
+        className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white shadow-lg pointer-events-auto cursor-ew-resize"
+        style={{ left: `${position * 100}%` }}
+        onPointerDown={handlePointerDown}
+      >
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center text-xs font-bold shadow-lg">
+          ⇔
+        </div>
+      </div>
+      <div className="absolute bottom-20 bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg" style={{ right: `${(1 - position) * 100 + 1}%` }}>
+        {leftLabel}
+      </div>
+      <div className="absolute bottom-20 bg-black bg-opacity-80 text-white text-xs px-2 py-1 rounded-lg" style={{ left: `${position * 100 + 1}%` }}>
+        {rightLabel}
+      </div>
+    </div>
+  );
+}
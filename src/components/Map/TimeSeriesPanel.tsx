@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { BandedLineChart } from '../Chart/BandedLineChart';
+import { downloadFile } from '../../lib/download';
+import { fetchTimeSeries, timeSeriesToCSV, TimeSeriesPoint, TimeSeriesTarget } from '../../lib/timeSeries';
+import { getQualityBands, ParameterScheme } from '../../lib/waterQuality';
+
+interface TimeSeriesPanelProps {
+  target: TimeSeriesTarget;
+  wmsUrl: string;
+  sceneTypename?: string;
+  layer: string;
+  indicatorName: string;
+  unit?: string;
+  time?: string;
+  scheme?: ParameterScheme;
+  onClose: () => void;
+}
+
+const describeTarget = (target: TimeSeriesTarget) =>
+  target.type === 'point'
+    ? `${target.latlng.lat.toFixed(4)}, ${target.latlng.lng.toFixed(4)}`
+    : `${target.feature.properties?.name ?? 'Selected area'} (area mean)`;
+
+export function TimeSeriesPanel({ target, wmsUrl, sceneTypename, layer, indicatorName, unit, time, scheme, onClose }: TimeSeriesPanelProps) {
+  const [series, setSeries] = useState<TimeSeriesPoint[] | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSeries(null);
+    setError(null);
+    if (!time) return;
+
+    const controller = new AbortController();
+    setProgress([0, 0]);
+    fetchTimeSeries({ url: wmsUrl, layer, time, typename: sceneTypename, signal: controller.signal }, target, (done, total) => setProgress([done, total]))
+      .then((result) => {
+        setSeries(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching time series:', err);
+        setError('Could not load the time series');
+        setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [target, wmsUrl, sceneTypename, layer, time]);
+
+  const handleExport = () => {
+    if (!series) return;
+    const column = unit ? `${indicatorName} (${unit})` : indicatorName;
+    downloadFile(timeSeriesToCSV(series, column), `time-series-${layer.toLowerCase()}.csv`, 'text/csv');
+  };
+
+  const hovered = hoverIndex !== null ? series?.[hoverIndex] : undefined;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-[640px] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <div className="min-w-0">
+          <h3 className="font-bold text-lg truncate">{indicatorName} time series</h3>
+          <div className="text-xs text-gray-300 truncate">{describeTarget(target)}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          {series && series.length > 0 && (
+            <button onClick={handleExport} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+              <Download className="w-4 h-4" /> CSV
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close time series">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!time && (
+        <div className="text-yellow-400 italic text-sm">Select a date range to build a time series</div>
+      )}
+      {progress && (
+        <div className="text-center text-gray-400 py-2 text-sm">
+          {progress[1] > 0 ? `Loading acquisitions ${progress[0]}/${progress[1]}...` : 'Searching acquisitions...'}
+        </div>
+      )}
+      {error && <div className="text-yellow-400 italic text-sm">{error}</div>}
+      {series && series.length === 0 && (
+        <div className="text-yellow-400 italic text-sm">No acquisitions in the selected date range</div>
+      )}
+      {series && series.length > 0 && (
+        <>
+          <BandedLineChart
+            points={series.map((point) => ({ x: parseISO(point.date).getTime(), y: point.value }))}
+            bands={getQualityBands(scheme)}
+            formatX={(x) => format(x, 'd MMM')}
+            unit={unit}
+            highlightIndex={hoverIndex}
+            onHover={setHoverIndex}
+          />
+          <div className="text-xs text-gray-300 h-4">
+            {hovered && (
+              <>
+                {format(parseISO(hovered.date), 'd MMM yyyy')}:{' '}
+                {hovered.value === null ? hovered.reason ?? 'No data' : `${hovered.value.toFixed(2)} ${unit ?? ''}`}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
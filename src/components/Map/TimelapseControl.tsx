@@ -0,0 +1,142 @@
+import { Film, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { AnimationFormat } from '../../lib/animationExport';
+
+const TIMELAPSE_SPEEDS = [0.5, 1, 2, 4];
+
+interface TimelapseControlProps {
+  dates: string[];
+  frameIndex: number;
+  isPlaying: boolean;
+  speed: number;
+  loadedDates: Set<string>;
+  exportProgress: [number, number] | null;
+  message?: string;
+  onFrameChange: (index: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: (format: AnimationFormat) => void;
+  onClose: () => void;
+}
+
+export function TimelapseControl({
+  dates,
+  frameIndex,
+  isPlaying,
+  speed,
+  loadedDates,
+  exportProgress,
+  message,
+  onFrameChange,
+  onPlayingChange,
+  onSpeedChange,
+  onExport,
+  onClose,
+}: TimelapseControlProps) {
+  const current = dates[frameIndex];
+  const hasFrames = dates.length > 0;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-[640px] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <Film className="w-5 h-5" /> Time-lapse
+          {current && <span className="text-sm font-normal text-gray-300">{format(parseISO(current), 'd MMM yyyy')}</span>}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close time-lapse">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {message ? (
+        <div className="text-yellow-400 italic text-sm">{message}</div>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onFrameChange((frameIndex - 1 + dates.length) % dates.length)}
+              disabled={!hasFrames}
+              className="p-2 rounded-lg hover:bg-white hover:bg-opacity-20 disabled:opacity-50"
+              aria-label="Previous frame"
+            >
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onPlayingChange(!isPlaying)}
+              disabled={dates.length < 2}
+              className="p-2 rounded-lg bg-white bg-opacity-10 hover:bg-opacity-20 disabled:opacity-50"
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => onFrameChange((frameIndex + 1) % dates.length)}
+              disabled={!hasFrames}
+              className="p-2 rounded-lg hover:bg-white hover:bg-opacity-20 disabled:opacity-50"
+              aria-label="Next frame"
+            >
+              <SkipForward className="w-4 h-4" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, dates.length - 1)}
+              value={frameIndex}
+              onChange={(e) => onFrameChange(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Scrub through acquisitions"
+            />
+            <select
+              value={speed}
+              onChange={(e) => onSpeedChange(Number(e.target.value))}
+              className="bg-white bg-opacity-10 rounded-lg px-2 py-1 text-sm outline-none"
+              aria-label="Playback speed"
+            >
+              {TIMELAPSE_SPEEDS.map((value) => (
+                <option key={value} value={value} className="text-black">
+                  {value}×
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-px mt-2 h-1.5">
+            {dates.map((date, index) => (
+              <div
+                key={date}
+                className={`flex-1 rounded-sm ${
+                  index === frameIndex ? 'bg-blue-500' : loadedDates.has(date) ? 'bg-gray-400' : 'bg-gray-700'
+                }`}
+                title={date}
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mt-3 text-sm">
+            <span className="text-gray-300">
+              {loadedDates.size}/{dates.length} frames loaded
+            </span>
+            <div className="flex gap-2">
+              {exportProgress ? (
+                <span className="text-gray-300">
+                  Rendering frame {exportProgress[0]}/{exportProgress[1]}...
+                </span>
+              ) : (
+                (['gif', 'webm'] as const).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => onExport(value)}
+                    disabled={!hasFrames}
+                    className="px-3 py-1 bg-white bg-opacity-10 hover:bg-opacity-20 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {value === 'gif' ? 'GIF' : 'WebM'}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet-draw';
+import { Download, Route, X } from 'lucide-react';
+import { BandedLineChart } from '../Chart/BandedLineChart';
+import { downloadFile } from '../../lib/download';
+import { formatLength } from '../../lib/measure';
+import { fetchTransect, transectToCSV, TransectSample } from '../../lib/transect';
+import { getQualityBands, ParameterScheme } from '../../lib/waterQuality';
+
+interface TransectPanelProps {
+  map: L.Map;
+  wmsUrl: string;
+  layer: string;
+  indicatorName: string;
+  unit?: string;
+  time?: string;
+  scheme?: ParameterScheme;
+  onClose: () => void;
+}
+
+const LINE_STYLE: L.PolylineOptions = { color: '#facc15', weight: 3, dashArray: '6 4', interactive: false };
+
+const formatTick = (meters: number, unit: 'm' | 'km') =>
+  unit === 'km' ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+export function TransectPanel({ map, wmsUrl, layer, indicatorName, unit, time, scheme, onClose }: TransectPanelProps) {
+  const [line, setLine] = useState<L.LatLng[] | null>(null);
+  const [samples, setSamples] = useState<TransectSample[] | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Draw the line with leaflet-draw; it stays out of the drawn areas
+  useEffect(() => {
+    if (line) return;
+    const handler = new L.Draw.Polyline(map as L.DrawMap, { shapeOptions: LINE_STYLE });
+    const handleCreated = (e: L.LeafletEvent) => {
+      const created = (e as L.DrawEvents.Created).layer;
+      if (created instanceof L.Polyline) setLine(created.getLatLngs() as L.LatLng[]);
+    };
+    // Escape drops the line being drawn and starts a new one
+    const handleStop = () => setAttempt((count) => count + 1);
+    map.on(L.Draw.Event.CREATED, handleCreated);
+    map.on(L.Draw.Event.DRAWSTOP, handleStop);
+    handler.enable();
+    return () => {
+      map.off(L.Draw.Event.CREATED, handleCreated);
+      map.off(L.Draw.Event.DRAWSTOP, handleStop);
+      handler.disable();
+    };
+  }, [map, line, attempt]);
+
+  useEffect(() => {
+    if (!line) return;
+    const shown = L.polyline(line, LINE_STYLE).addTo(map);
+    return () => {
+      shown.remove();
+    };
+  }, [map, line]);
+
+  useEffect(() => {
+    setSamples(null);
+    setError(null);
+    if (!line) return;
+
+    const controller = new AbortController();
+    setProgress([0, 0]);
+    fetchTransect({ url: wmsUrl, layer, time, signal: controller.signal }, line, (done, total) => setProgress([done, total]))
+      .then((result) => {
+        setSamples(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error sampling transect:', err);
+        setError('Could not sample along the line');
+        setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [line, wmsUrl, layer, time]);
+
+  const hovered = hoverIndex !== null ? samples?.[hoverIndex] : undefined;
+
+  // The hovered sample is marked on the map
+  useEffect(() => {
+    if (!hovered) return;
+    const marker = L.circleMarker(hovered.latlng, { radius: 6, color: '#ffffff', weight: 2, fillColor: '#3b82f6', fillOpacity: 1, interactive: false }).addTo(map);
+    return () => {
+      marker.remove();
+    };
+  }, [map, hovered]);
+
+  const handleExport = () => {
+    if (!samples) return;
+    const column = unit ? `${indicatorName} (${unit})` : indicatorName;
+    downloadFile(transectToCSV(samples, column), `transect-${layer.toLowerCase()}.csv`, 'text/csv');
+  };
+
+  const handleRedraw = () => {
+    setLine(null);
+    setHoverIndex(null);
+  };
+
+  const total = samples?.[samples.length - 1]?.distance ?? 0;
+  const lengthUnit = total >= 2000 ? 'km' : 'm';
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-[640px] max-w-[90vw]">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <div className="min-w-0">
+          <h3 className="font-bold text-lg truncate">{indicatorName} transect</h3>
+          {samples && samples.length > 0 && (
+            <div className="text-xs text-gray-300 truncate">
+              {formatLength(total, lengthUnit)} · {samples.length} samples
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {line && (
+            <button onClick={handleRedraw} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+              <Route className="w-4 h-4" /> New line
+            </button>
+          )}
+          {samples && samples.length > 0 && (
+            <button onClick={handleExport} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+              <Download className="w-4 h-4" /> CSV
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close transect">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!line && (
+        <div className="text-gray-400 italic text-sm">
+          Draw a line across the water: click to add points, click the last point to finish
+        </div>
+      )}
+      {progress && (
+        <div className="text-center text-gray-400 py-2 text-sm">
+          {progress[1] > 0 ? `Sampling ${progress[0]}/${progress[1]}...` : 'Sampling...'}
+        </div>
+      )}
+      {error && <div className="text-yellow-400 italic text-sm">{error}</div>}
+      {samples && samples.length > 0 && (
+        <>
+          <BandedLineChart
+            points={samples.map((sample) => ({ x: sample.distance, y: sample.value }))}
+            bands={getQualityBands(scheme)}
+            formatX={(x) => formatTick(x, lengthUnit)}
+            unit={unit}
+            highlightIndex={hoverIndex}
+            onHover={setHoverIndex}
+          />
+          <div className="text-xs text-gray-300 h-4">
+            {hovered && (
+              <>
+                {formatLength(hovered.distance, lengthUnit)}:{' '}
+                {hovered.value === null ? hovered.reason ?? 'No data' : `${hovered.value.toFixed(2)} ${unit ?? ''}`}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
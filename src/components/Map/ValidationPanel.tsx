@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, Trash2, Upload, X } from 'lucide-react';
+import { ScatterPlot } from '../Chart/ScatterPlot';
+import { downloadFile } from '../../lib/download';
+import type { LayerIndicator } from '../../lib/indicators';
+import { fetchSampleMatches, matchesToCSV, SampleImportResult, SampleMatch, toValidationMatches } from '../../lib/insitu';
+import { computeValidationStats, summarizeByStation } from '../../lib/validation';
+
+interface ValidationPanelProps {
+  imports: SampleImportResult[];
+  wmsUrl: string;
+  sceneTypename?: string;
+  indicators: LayerIndicator[];
+  // Parameter selected in the sidebar, validated first when the samples measured it
+  selectedLayer?: string;
+  onImport: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Days either side of the sampling date to look for an acquisition
+const MATCH_WINDOWS = [1, 3, 5, 10];
+
+const formatStat = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? '—' : value.toFixed(digits);
+
+export function ValidationPanel({
+  imports,
+  wmsUrl,
+  sceneTypename,
+  indicators,
+  selectedLayer,
+  onImport,
+  onClear,
+  onClose,
+}: ValidationPanelProps) {
+  const samples = useMemo(() => imports.flatMap((result) => result.samples), [imports]);
+  const parameters = useMemo(() => Array.from(new Set(imports.flatMap((result) => result.parameters))), [imports]);
+  const defaultLayer = selectedLayer && parameters.includes(selectedLayer) ? selectedLayer : parameters[0] ?? '';
+  const [layer, setLayer] = useState(defaultLayer);
+  const [maxDays, setMaxDays] = useState(3);
+  const [matches, setMatches] = useState<SampleMatch[] | null>(null);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new import may not measure the parameter being validated
+  useEffect(() => {
+    if (!parameters.includes(layer)) setLayer(defaultLayer);
+  }, [parameters, layer, defaultLayer]);
+
+  useEffect(() => {
+    setMatches(null);
+    setError(null);
+    setProgress(null);
+    if (!layer || samples.length === 0) return;
+
+    const controller = new AbortController();
+    setProgress([0, 0]);
+    fetchSampleMatches({ url: wmsUrl, layer, typename: sceneTypename, signal: controller.signal }, samples, maxDays, (done, total) => setProgress([done, total]))
+      .then((result) => {
+        setMatches(result);
+        setProgress(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error matching samples:', err);
+        setError('Could not match the samples to acquisitions');
+        setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [samples, layer, maxDays, wmsUrl, sceneTypename]);
+
+  const indicator = indicators.find((candidate) => candidate.layer === layer);
+  const name = indicator?.name ?? layer;
+  const unit = indicator?.unit;
+  const pairs = useMemo(() => (matches ? toValidationMatches(matches, layer) : []), [matches, layer]);
+  const stats = computeValidationStats(pairs);
+  const stations = summarizeByStation(pairs);
+  const unmatched = matches?.filter((match) => match.estimated === null) ?? [];
+  const issues = imports.flatMap((result) => result.issues.map((issue) => ({ ...issue, fileName: result.fileName })));
+
+  const handleExport = () => {
+    if (!matches) return;
+    downloadFile(matchesToCSV(matches, layer, unit ? `${name} (${unit})` : name), `validation-${layer.toLowerCase()}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-80 text-white p-4 rounded-xl z-[1000] w-[640px] max-w-[90vw] max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-6 border-b border-gray-600 pb-2 mb-3">
+        <div className="min-w-0">
+          <h3 className="font-bold text-lg truncate">Validation</h3>
+          {samples.length > 0 && (
+            <div className="text-xs text-gray-300 truncate">
+              {samples.length} samples from {imports.map((result) => result.fileName).join(', ')}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onImport} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          {matches && matches.length > 0 && (
+            <button onClick={handleExport} className="flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+              <Download className="w-4 h-4" /> CSV
+            </button>
+          )}
+          {imports.length > 0 && (
+            <button onClick={onClear} className="text-gray-400 hover:text-red-400" aria-label="Remove samples">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close validation">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {imports.length === 0 && (
+        <div className="text-gray-400 italic text-sm">
+          Import a CSV or XLSX file of samples with latitude, longitude, date and chlorophyll-a, dissolved oxygen, TSS or turbidity columns
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <details className="text-sm mb-3">
+          <summary className="text-yellow-400 cursor-pointer">
+            {issues.length} import {issues.length === 1 ? 'issue' : 'issues'}
+          </summary>
+          <div className="mt-1 max-h-24 overflow-y-auto text-yellow-400 italic">
+            {issues.map((issue, index) => (
+              <div key={index}>
+                {issue.fileName}{issue.row > 0 ? `, row ${issue.row}` : ''}: {issue.message}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+
+      {parameters.length > 0 && (
+        <div className="flex items-center gap-3 text-sm mb-3">
+          <select
+            value={layer}
+            onChange={(e) => setLayer(e.target.value)}
+            className="flex-1 bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+          >
+            {parameters.map((parameter) => (
+              <option key={parameter} value={parameter} className="text-black">
+                {indicators.find((candidate) => candidate.layer === parameter)?.name ?? parameter}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            Match within
+            <select
+              value={maxDays}
+              onChange={(e) => setMaxDays(Number(e.target.value))}
+              className="bg-white bg-opacity-10 rounded-lg px-2 py-1 outline-none"
+            >
+              {MATCH_WINDOWS.map((days) => (
+                <option key={days} value={days} className="text-black">
+                  ±{days} {days === 1 ? 'day' : 'days'}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {progress && (
+        <div className="text-center text-gray-400 py-2 text-sm">
+          {progress[1] > 0 ? `Matching ${progress[0]}/${progress[1]}...` : 'Matching...'}
+        </div>
+      )}
+      {error && <div className="text-yellow-400 italic text-sm">{error}</div>}
+
+      {matches && !stats && (
+        <div className="text-gray-400 italic text-sm">No sample has a satellite estimate within ±{maxDays} days</div>
+      )}
+      {matches && stats && (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-3">
+            <ScatterPlot
+              points={pairs.map((pair) => ({ x: pair.observed, y: pair.estimated, label: `${pair.station}, ${pair.sampleDate}` }))}
+              xLabel={`Measured${unit ? ` (${unit})` : ''}`}
+              yLabel={`Satellite${unit ? ` (${unit})` : ''}`}
+              fit={stats.slope !== null && stats.intercept !== null ? { slope: stats.slope, intercept: stats.intercept } : null}
+            />
+            <div className="grid grid-cols-2 gap-2 text-sm content-start">
+              <div className="text-gray-400">Matched</div>
+              <div>{stats.n} of {matches.length}</div>
+              <div className="text-gray-400">Bias</div>
+              <div>{formatStat(stats.bias)} {unit}</div>
+              <div className="text-gray-400">RMSE</div>
+              <div>{formatStat(stats.rmse)} {unit}</div>
+              <div className="text-gray-400">MAE</div>
+              <div>{formatStat(stats.mae)} {unit}</div>
+              <div className="text-gray-400">R²</div>
+              <div>{formatStat(stats.r2, 3)}</div>
+              <div className="text-gray-400">Fit</div>
+              <div>
+                {stats.slope !== null && stats.intercept !== null
+                  ? `y = ${stats.slope.toFixed(2)}x ${stats.intercept < 0 ? '−' : '+'} ${Math.abs(stats.intercept).toFixed(2)}`
+                  : '—'}
+              </div>
+              <div className="col-span-2 text-xs text-gray-400 mt-1">
+                Bias is the mean of satellite minus measured; the dashed line is 1:1
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-600">
+                <th className="py-1 font-normal">Station</th>
+                <th className="py-1 font-normal text-right">N</th>
+                <th className="py-1 font-normal text-right">Bias</th>
+                <th className="py-1 font-normal text-right">RMSE</th>
+                <th className="py-1 font-normal text-right">R²</th>
+                <th className="py-1 font-normal text-right">Max gap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stations.map(({ station, stats: stationStats, maxOffsetDays }) => (
+                <tr key={station} className="border-b border-gray-700">
+                  <td className="py-1 truncate max-w-[12rem]">{station}</td>
+                  <td className="py-1 text-right">{stationStats.n}</td>
+                  <td className="py-1 text-right">{formatStat(stationStats.bias)}</td>
+                  <td className="py-1 text-right">{formatStat(stationStats.rmse)}</td>
+                  <td className="py-1 text-right">{formatStat(stationStats.r2, 3)}</td>
+                  <td className="py-1 text-right">{maxOffsetDays} d</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {unmatched.length > 0 && (
+        <details className="text-sm mt-3">
+          <summary className="text-gray-400 cursor-pointer">
+            {unmatched.length} {unmatched.length === 1 ? 'sample' : 'samples'} without an estimate
+          </summary>
+          <div className="mt-1 max-h-24 overflow-y-auto text-gray-300">
+            {unmatched.map(({ sample, reason }) => (
+              <div key={sample.id}>
+                {sample.station}, {sample.date}: {reason ?? 'No data'}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
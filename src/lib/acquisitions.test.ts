@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { latLngBounds } from 'leaflet';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchAcquisitionDates, MAX_SCENES } from './acquisitions';
+
+// A WFS answering with scenes numbered from the requested offset, one date per ten scenes
+const serveScenes = (total: number) =>
+  vi.fn(async (url: string) => {
+    const offset = Number(new URL(url).searchParams.get('FEATURE_OFFSET'));
+    const count = Math.max(0, Math.min(100, total - offset));
+    const features = Array.from({ length: count }, (_, i) => {
+      const day = Math.floor((offset + i) / 10);
+      return { properties: { date: `2024-${String(Math.floor(day / 28) + 1).padStart(2, '0')}-${String((day % 28) + 1).padStart(2, '0')}` } };
+    });
+    return new Response(JSON.stringify({ features }), { headers: { 'Content-Type': 'application/json' } });
+  });
+
+const query = { bounds: latLngBounds([0, 0], [1, 1]), time: '2024-01-01/2024-12-31' };
+const WMS_URL = 'https://services.sentinel-hub.com/ogc/wms/instance';
+
+describe('fetchAcquisitionDates', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', serveScenes(0));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks the WFS of the instance for one page', async () => {
+    await expect(fetchAcquisitionDates(WMS_URL, query)).resolves.toEqual({ dates: [], truncated: false });
+    const url = new URL(vi.mocked(fetch).mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/ogc/wfs/instance');
+    expect(url.searchParams.get('MAXFEATURES')).toBe('100');
+    expect(url.searchParams.get('FEATURE_OFFSET')).toBe('0');
+  });
+
+  it('pages until a page comes back short', async () => {
+    vi.stubGlobal('fetch', serveScenes(250));
+    const { dates, truncated } = await fetchAcquisitionDates(WMS_URL, query);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(dates).toHaveLength(25);
+    expect(dates[0]).toBe('2024-01-01');
+    expect(truncated).toBe(false);
+  });
+
+  it('makes one more request when the last page is exactly full', async () => {
+    vi.stubGlobal('fetch', serveScenes(200));
+    await expect(fetchAcquisitionDates(WMS_URL, query)).resolves.toMatchObject({ truncated: false });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops at the scene limit and reports the result as truncated', async () => {
+    vi.stubGlobal('fetch', serveScenes(MAX_SCENES + 500));
+    const { dates, truncated } = await fetchAcquisitionDates(WMS_URL, query);
+    expect(fetch).toHaveBeenCalledTimes(MAX_SCENES / 100);
+    expect(dates).toHaveLength(MAX_SCENES / 10);
+    expect(truncated).toBe(true);
+  });
+
+  it('throws when a page fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    await expect(fetchAcquisitionDates(WMS_URL, query)).rejects.toThrow('Scene search failed with status 503');
+  });
+});
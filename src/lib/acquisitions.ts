@@ -0,0 +1,77 @@
+import type { LatLngBounds } from 'leaflet';
+import type { DateRange } from 'react-day-picker';
+import { format, isSameDay } from 'date-fns';
+
+// Sentinel Hub WFS feature type listing Sentinel-2 L2A scenes
+const DEFAULT_SCENE_TYPENAME = 'DSS2';
+// Most scenes the WFS returns per request
+const PAGE_SIZE = 100;
+// Paging stops here; a year over a view covering several tiles stays well below it
+export const MAX_SCENES = 2000;
+
+export interface AcquisitionDates {
+  dates: string[];
+  // More scenes matched than MAX_SCENES, so some dates may be missing
+  truncated: boolean;
+}
+
+export interface SceneQuery {
+  bounds: LatLngBounds;
+  time: string;
+  typename?: string;
+  signal?: AbortSignal;
+}
+
+// WMS TIME value for the selection: a single date or an inclusive start/end interval
+export const formatTimeParam = (range?: DateRange): string | undefined => {
+  if (!range?.from) return undefined;
+  const from = format(range.from, 'yyyy-MM-dd');
+  if (!range.to || isSameDay(range.from, range.to)) return from;
+  return `${from}/${format(range.to, 'yyyy-MM-dd')}`;
+};
+
+export const formatAcquisitionWindow = (range?: DateRange): string => {
+  if (!range?.from) return 'Latest available imagery';
+  if (!range.to || isSameDay(range.from, range.to)) return format(range.from, 'd MMM yyyy');
+  return `${format(range.from, 'd MMM yyyy')} – ${format(range.to, 'd MMM yyyy')}`;
+};
+
+// The OGC endpoints of a Sentinel Hub instance share the same path apart from the service
+export const toWFSUrl = (wmsUrl: string) => wmsUrl.replace('/ogc/wms/', '/ogc/wfs/');
+
+// Distinct acquisition dates (yyyy-MM-dd, ascending) covering the bounds within the time window,
+// requested a page at a time
+export const fetchAcquisitionDates = async (
+  wmsUrl: string,
+  { bounds, time, typename = DEFAULT_SCENE_TYPENAME, signal }: SceneQuery
+): Promise<AcquisitionDates> => {
+  const params = new URLSearchParams({
+    SERVICE: 'WFS',
+    REQUEST: 'GetFeature',
+    VERSION: '2.0.0',
+    TYPENAMES: typename,
+    SRSNAME: 'CRS:84',
+    BBOX: `${bounds.getWest()},${bounds.getSouth()},${bounds.getEast()},${bounds.getNorth()}`,
+    TIME: time.includes('/') ? time : `${time}/${time}`,
+    MAXFEATURES: String(PAGE_SIZE),
+    OUTPUTFORMAT: 'application/json',
+  });
+  const dates = new Set<string>();
+
+  for (let offset = 0; offset < MAX_SCENES; offset += PAGE_SIZE) {
+    params.set('FEATURE_OFFSET', String(offset));
+    const response = await fetch(`${toWFSUrl(wmsUrl)}?${params}`, { signal });
+    if (!response.ok) {
+      throw new Error(`Scene search failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const features = data.features ?? [];
+    for (const feature of features) {
+      const date = feature.properties?.date;
+      if (typeof date === 'string') dates.add(date);
+    }
+    if (features.length < PAGE_SIZE) return { dates: Array.from(dates).sort(), truncated: false };
+  }
+  return { dates: Array.from(dates).sort(), truncated: true };
+};
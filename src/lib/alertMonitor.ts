@@ -0,0 +1,111 @@
+import { bbox } from '@turf/turf';
+import { format, subDays } from 'date-fns';
+import { latLngBounds } from 'leaflet';
+import { fetchAcquisitionDates } from './acquisitions';
+import { AlertEvent, AlertRule, describeRule, evaluateRule, pendingDates } from './alerts';
+import { samplePolygon } from './areaStats';
+import { getPointValues } from './featureInfo';
+import type { SavedArea } from './savedAreas';
+
+export const ALERT_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+// How far back a rule looks the first time it is checked
+const FIRST_CHECK_DAYS = 14;
+const ALERT_SAMPLES = 50;
+// Oldest notifications are dropped beyond this
+const MAX_EVENTS = 200;
+
+const RULES_KEY = 'orber.alertRules';
+const EVENTS_KEY = 'orber.alerts';
+
+const loadList = <T>(key: string): T[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return [];
+  }
+};
+
+export const loadAlertRules = () => loadList<AlertRule>(RULES_KEY);
+export const saveAlertRules = (rules: AlertRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+export const loadAlertEvents = () => loadList<AlertEvent>(EVENTS_KEY);
+export const saveAlertEvents = (events: AlertEvent[]) =>
+  localStorage.setItem(EVENTS_KEY, JSON.stringify(events.slice(0, MAX_EVENTS)));
+
+interface MonitorQuery {
+  url: string;
+  typename?: string;
+  signal?: AbortSignal;
+}
+
+// Evaluate one rule on every acquisition over its area it hasn't seen yet
+export const checkRule = async (
+  rule: AlertRule,
+  area: SavedArea,
+  query: MonitorQuery,
+  now = new Date()
+): Promise<{ rule: AlertRule; events: AlertEvent[] }> => {
+  const from = rule.lastCheckedDate ?? format(subDays(now, FIRST_CHECK_DAYS), 'yyyy-MM-dd');
+  const [west, south, east, north] = bbox(area.feature);
+  const { dates } = await fetchAcquisitionDates(query.url, {
+    bounds: latLngBounds([south, west], [north, east]),
+    time: `${from}/${format(now, 'yyyy-MM-dd')}`,
+    typename: query.typename,
+    signal: query.signal,
+  });
+
+  const points = samplePolygon(area.feature, ALERT_SAMPLES);
+  const events: AlertEvent[] = [];
+  let lastCheckedDate = rule.lastCheckedDate;
+
+  for (const date of pendingDates(rule, dates)) {
+    const results = await getPointValues(
+      { url: query.url, layer: rule.layer, time: date, signal: query.signal },
+      points,
+      { concurrency: 4 }
+    );
+    const { triggered, observed } = evaluateRule(rule, results.map((result) => result.value));
+    if (triggered && observed !== null) {
+      events.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        areaId: area.id,
+        layer: rule.layer,
+        date,
+        observed,
+        message: `${area.name}: ${describeRule(rule)} (${observed.toFixed(2)})`,
+        createdAt: now.toISOString(),
+        acknowledged: false,
+      });
+    }
+    lastCheckedDate = date;
+  }
+
+  return { rule: { ...rule, lastCheckedDate }, events };
+};
+
+// Check every enabled rule in turn; a failing rule is logged and retried on the next run
+export const checkRules = async (rules: AlertRule[], areas: SavedArea[], query: MonitorQuery) => {
+  const checked: AlertRule[] = [];
+  const events: AlertEvent[] = [];
+
+  for (const rule of rules) {
+    const area = areas.find((candidate) => candidate.id === rule.areaId);
+    if (!rule.enabled || !area) {
+      checked.push(rule);
+      continue;
+    }
+    try {
+      const result = await checkRule(rule, area, query);
+      checked.push(result.rule);
+      events.push(...result.events);
+    } catch (error) {
+      if (query.signal?.aborted) throw error;
+      console.error(`Error checking alert rule ${rule.id}:`, error);
+      checked.push(rule);
+    }
+  }
+
+  return { rules: checked, events };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { compare, evaluateRule, pendingDates } from './alerts';
+
+describe('compare', () => {
+  it('applies each operator against the threshold', () => {
+    expect(compare(5, '>', 5)).toBe(false);
+    expect(compare(5, '>=', 5)).toBe(true);
+    expect(compare(4.9, '<', 5)).toBe(true);
+    expect(compare(5, '<', 5)).toBe(false);
+    expect(compare(5, '<=', 5)).toBe(true);
+    expect(compare(5.1, '<=', 5)).toBe(false);
+  });
+});
+
+describe('evaluateRule', () => {
+  const values = [2, 4, null, 9];
+
+  it('reduces the values with the rule metric before comparing', () => {
+    expect(evaluateRule({ metric: 'mean', operator: '>', threshold: 5 }, values)).toEqual({ triggered: false, observed: 5 });
+    expect(evaluateRule({ metric: 'mean', operator: '>=', threshold: 5 }, values)).toEqual({ triggered: true, observed: 5 });
+    expect(evaluateRule({ metric: 'min', operator: '<', threshold: 3 }, values)).toEqual({ triggered: true, observed: 2 });
+    expect(evaluateRule({ metric: 'max', operator: '>', threshold: 9 }, values)).toEqual({ triggered: false, observed: 9 });
+  });
+
+  it('reports the first matching pixel for any', () => {
+    expect(evaluateRule({ metric: 'any', operator: '>', threshold: 3 }, values)).toEqual({ triggered: true, observed: 4 });
+    expect(evaluateRule({ metric: 'any', operator: '<', threshold: 1 }, values)).toEqual({ triggered: false, observed: null });
+  });
+
+  it('ignores missing values and never triggers without any', () => {
+    expect(evaluateRule({ metric: 'min', operator: '<', threshold: 100 }, [null, 7, null])).toEqual({ triggered: true, observed: 7 });
+    expect(evaluateRule({ metric: 'mean', operator: '<', threshold: 100 }, [null, null])).toEqual({ triggered: false, observed: null });
+    expect(evaluateRule({ metric: 'any', operator: '>', threshold: 0 }, [])).toEqual({ triggered: false, observed: null });
+  });
+});
+
+describe('pendingDates', () => {
+  const dates = ['2024-05-10', '2024-05-01', '2024-05-05'];
+
+  it('returns every date, oldest first, for a rule never checked', () => {
+    expect(pendingDates({}, dates)).toEqual(['2024-05-01', '2024-05-05', '2024-05-10']);
+  });
+
+  it('skips dates up to and including the last one checked', () => {
+    expect(pendingDates({ lastCheckedDate: '2024-05-05' }, dates)).toEqual(['2024-05-10']);
+    expect(pendingDates({ lastCheckedDate: '2024-05-10' }, dates)).toEqual([]);
+  });
+
+  it('leaves the input untouched', () => {
+    pendingDates({}, dates);
+    expect(dates).toEqual(['2024-05-10', '2024-05-01', '2024-05-05']);
+  });
+});
@@ -0,0 +1,86 @@
+// Alert rules are checked against the pixel values sampled inside an area on each acquisition.
+// Everything here is pure; fetching and scheduling live in alertMonitor.ts
+
+// How the sampled pixels are reduced before comparing: the area mean, an extreme, or any single pixel
+export type AlertMetric = 'mean' | 'min' | 'max' | 'any';
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export interface AlertRule {
+  id: string;
+  areaId: string;
+  layer: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  enabled: boolean;
+  // Last acquisition date already evaluated, yyyy-MM-dd
+  lastCheckedDate?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  areaId: string;
+  layer: string;
+  // Acquisition that triggered the alert, yyyy-MM-dd
+  date: string;
+  observed: number;
+  message: string;
+  createdAt: string;
+  acknowledged: boolean;
+}
+
+export interface RuleEvaluation {
+  triggered: boolean;
+  // The reduced value compared against the threshold, or the first matching pixel for 'any'
+  observed: number | null;
+}
+
+export const ALERT_METRICS: Record<AlertMetric, string> = {
+  mean: 'Mean',
+  min: 'Min',
+  max: 'Max',
+  any: 'Any pixel',
+};
+
+export const ALERT_OPERATORS: AlertOperator[] = ['>', '>=', '<', '<='];
+
+export const compare = (value: number, operator: AlertOperator, threshold: number) => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+};
+
+// Reduce the sampled values (null for clouds or no data) and compare them against the rule
+export const evaluateRule = (rule: Pick<AlertRule, 'metric' | 'operator' | 'threshold'>, values: (number | null)[]): RuleEvaluation => {
+  const valid = values.filter((value): value is number => value !== null);
+  if (valid.length === 0) return { triggered: false, observed: null };
+
+  if (rule.metric === 'any') {
+    const match = valid.find((value) => compare(value, rule.operator, rule.threshold));
+    return match === undefined ? { triggered: false, observed: null } : { triggered: true, observed: match };
+  }
+
+  const observed = rule.metric === 'mean'
+    ? valid.reduce((sum, value) => sum + value, 0) / valid.length
+    : rule.metric === 'min'
+      ? Math.min(...valid)
+      : Math.max(...valid);
+  return { triggered: compare(observed, rule.operator, rule.threshold), observed };
+};
+
+// Acquisitions the rule hasn't seen yet, oldest first
+export const pendingDates = (rule: Pick<AlertRule, 'lastCheckedDate'>, dates: string[]) =>
+  [...dates].sort().filter((date) => !rule.lastCheckedDate || date > rule.lastCheckedDate);
+
+export const describeRule = (rule: Pick<AlertRule, 'metric' | 'operator' | 'threshold' | 'layer'>, unit?: string) =>
+  `${ALERT_METRICS[rule.metric].toLowerCase()} ${rule.layer} ${rule.operator} ${rule.threshold}${unit ? ` ${unit}` : ''}`;
+
+export const countUnread = (events: AlertEvent[]) => events.filter((event) => !event.acknowledged).length;
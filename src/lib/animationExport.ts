@@ -0,0 +1,58 @@
+import { applyPalette, GIFEncoder, quantize } from 'gifenc';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+// Stamp a caption in the lower left corner of a frame
+export const drawCaption = (canvas: HTMLCanvasElement, text: string) => {
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = 'bold 16px sans-serif';
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(10, canvas.height - 40, width + 20, 30);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, 20, canvas.height - 19);
+};
+
+export const encodeGif = (frames: HTMLCanvasElement[], delayMs: number): Blob => {
+  const gif = GIFEncoder();
+  for (const frame of frames) {
+    const { data } = frame.getContext('2d')!.getImageData(0, 0, frame.width, frame.height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), frame.width, frame.height, { palette, delay: delayMs });
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+// Record the frames in real time through MediaRecorder, which every evergreen browser supports
+export const encodeWebM = (frames: HTMLCanvasElement[], delayMs: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frames[0].width;
+  canvas.height = frames[0].height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(frames[0], 0, 0);
+
+  const stream = canvas.captureStream(Math.max(1, Math.round(1000 / delayMs)));
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+
+  return new Promise((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.onerror = () => reject(new Error('Video recording failed'));
+    recorder.start();
+
+    let index = 0;
+    const step = () => {
+      ctx.drawImage(frames[index], 0, 0);
+      index++;
+      if (index < frames.length) {
+        setTimeout(step, delayMs);
+      } else {
+        // Hold the last frame for its full duration before stopping
+        setTimeout(() => recorder.stop(), delayMs);
+      }
+    };
+    step();
+  });
+};
@@ -0,0 +1,85 @@
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { area, bbox, centroid, length, pointGrid, polygonToLine } from '@turf/turf';
+import { latLng } from 'leaflet';
+import type { LatLng } from 'leaflet';
+import { getPointValues, PointQuery } from './featureInfo';
+
+export type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+export interface AreaMeasurements {
+  areaM2: number;
+  perimeterM: number;
+}
+
+export interface AreaStatistics {
+  samples: number;
+  validSamples: number;
+  // Share of samples with a value, 0-1
+  coverage: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  median: number | null;
+  p10: number | null;
+  p90: number | null;
+  // Valid sample values in ascending order, for classifying against any profile
+  values: number[];
+}
+
+const DEFAULT_MAX_SAMPLES = 150;
+
+export const measureArea = (feature: AreaFeature): AreaMeasurements => ({
+  areaM2: area(feature),
+  perimeterM: length(polygonToLine(feature.geometry), { units: 'kilometers' }) * 1000,
+});
+
+// Whether two features outline the same shape, whatever their properties
+export const isSameGeometry = (a: AreaFeature, b: AreaFeature) =>
+  a.geometry === b.geometry || JSON.stringify(a.geometry) === JSON.stringify(b.geometry);
+
+// Linear interpolation between closest ranks of an ascending array
+export const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const computeStatistics = (values: (number | null)[]): AreaStatistics => {
+  const valid = values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+
+  return {
+    samples: values.length,
+    validSamples: valid.length,
+    coverage: values.length > 0 ? valid.length / values.length : 0,
+    mean: valid.length > 0 ? valid.reduce((sum, value) => sum + value, 0) / valid.length : null,
+    min: valid[0] ?? null,
+    max: valid[valid.length - 1] ?? null,
+    median: percentile(valid, 0.5),
+    p10: percentile(valid, 0.1),
+    p90: percentile(valid, 0.9),
+    values: valid,
+  };
+};
+
+// Evenly spaced points inside the polygon, close to maxSamples in number
+export const samplePolygon = (feature: AreaFeature, maxSamples = DEFAULT_MAX_SAMPLES): LatLng[] => {
+  const cellSide = Math.sqrt(area(feature) / maxSamples) / 1000;
+  const grid = cellSide > 0
+    ? pointGrid(bbox(feature), cellSide, { units: 'kilometers', mask: feature }).features
+    : [];
+  // Polygons smaller than one cell still get a sample at their center
+  const points = grid.length > 0 ? grid : [centroid(feature)];
+  return points.map(({ geometry }) => latLng(geometry.coordinates[1], geometry.coordinates[0]));
+};
+
+export const fetchAreaStatistics = async (
+  query: PointQuery,
+  feature: AreaFeature,
+  onProgress?: (done: number, total: number) => void
+): Promise<AreaStatistics> => {
+  const points = samplePolygon(feature);
+  const results = await getPointValues(query, points, { onProgress });
+  return computeStatistics(results.map((result) => result.value));
+};
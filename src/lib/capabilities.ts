@@ -0,0 +1,134 @@
+import { isSameDay, isWithinInterval, parseISO, startOfDay } from 'date-fns';
+
+export interface WMSStyle {
+  name: string;
+  title: string;
+  legendUrl?: string;
+}
+
+export interface TimeDimension {
+  default?: string;
+  // Raw extent entries: single instants or start/end/period intervals
+  extent: string[];
+}
+
+export interface WMSLayer {
+  name: string;
+  title: string;
+  abstract?: string;
+  styles: WMSStyle[];
+  // [west, south, east, north] in degrees
+  bbox?: [number, number, number, number];
+  time?: TimeDimension;
+}
+
+export interface WMSCapabilities {
+  title?: string;
+  layers: WMSLayer[];
+}
+
+const childrenByName = (element: Element, name: string) =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+const childText = (element: Element, name: string) =>
+  childrenByName(element, name)[0]?.textContent?.trim() || undefined;
+
+const parseStyle = (element: Element): WMSStyle => {
+  const resource = childrenByName(element, 'LegendURL')[0]
+    ?.getElementsByTagNameNS('*', 'OnlineResource')[0];
+  return {
+    name: childText(element, 'Name') ?? '',
+    title: childText(element, 'Title') ?? childText(element, 'Name') ?? '',
+    legendUrl: resource?.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+      ?? resource?.getAttribute('xlink:href')
+      ?? undefined,
+  };
+};
+
+const parseBoundingBox = (element: Element): WMSLayer['bbox'] => {
+  const box = childrenByName(element, 'EX_GeographicBoundingBox')[0];
+  if (box) {
+    const value = (name: string) => Number(childText(box, name));
+    return [value('westBoundLongitude'), value('southBoundLatitude'), value('eastBoundLongitude'), value('northBoundLatitude')];
+  }
+  // WMS 1.1.1 servers describe the geographic extent with attributes instead
+  const latLonBox = childrenByName(element, 'LatLonBoundingBox')[0];
+  if (latLonBox) {
+    const value = (name: string) => Number(latLonBox.getAttribute(name));
+    return [value('minx'), value('miny'), value('maxx'), value('maxy')];
+  }
+  return undefined;
+};
+
+const parseTimeDimension = (element: Element): TimeDimension | undefined => {
+  const dimension = [...childrenByName(element, 'Dimension'), ...childrenByName(element, 'Extent')]
+    .find((child) => child.getAttribute('name')?.toLowerCase() === 'time' && child.textContent?.trim());
+  if (!dimension) return undefined;
+  return {
+    default: dimension.getAttribute('default') ?? undefined,
+    extent: dimension.textContent!.split(',').map((entry) => entry.trim()).filter(Boolean),
+  };
+};
+
+// Named layers inherit bounding boxes, styles and dimensions from their parent layers
+const collectLayers = (element: Element, inherited: Partial<WMSLayer>, layers: WMSLayer[]) => {
+  const styles = [...(inherited.styles ?? []), ...childrenByName(element, 'Style').map(parseStyle)];
+  const bbox = parseBoundingBox(element) ?? inherited.bbox;
+  const time = parseTimeDimension(element) ?? inherited.time;
+  const name = childText(element, 'Name');
+
+  if (name) {
+    layers.push({
+      name,
+      title: childText(element, 'Title') ?? name,
+      abstract: childText(element, 'Abstract'),
+      styles,
+      bbox,
+      time,
+    });
+  }
+
+  for (const child of childrenByName(element, 'Layer')) {
+    collectLayers(child, { styles, bbox, time }, layers);
+  }
+};
+
+export const parseCapabilities = (xml: string): WMSCapabilities => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Capabilities document is not valid XML');
+  }
+
+  const capability = doc.getElementsByTagNameNS('*', 'Capability')[0];
+  if (!capability) {
+    throw new Error('Capabilities document has no Capability section');
+  }
+
+  const service = doc.getElementsByTagNameNS('*', 'Service')[0];
+  const layers: WMSLayer[] = [];
+  for (const root of childrenByName(capability, 'Layer')) {
+    collectLayers(root, {}, layers);
+  }
+
+  return { title: service ? childText(service, 'Title') : undefined, layers };
+};
+
+export const fetchCapabilities = async (wmsUrl: string, signal?: AbortSignal): Promise<WMSCapabilities> => {
+  const response = await fetch(`${wmsUrl}?SERVICE=WMS&REQUEST=GetCapabilities&VERSION=1.3.0`, { signal });
+  if (!response.ok) {
+    throw new Error(`GetCapabilities failed with status ${response.status}`);
+  }
+  return parseCapabilities(await response.text());
+};
+
+// Whether any acquisition in the time dimension falls on the given day
+export const isDateAvailable = (time: TimeDimension, date: Date): boolean => {
+  const day = startOfDay(date);
+  return time.extent.some((entry) => {
+    const [start, end] = entry.split('/');
+    if (!end) return isSameDay(parseISO(start), day);
+    const endDate = end === 'present' || end === 'current' ? new Date() : parseISO(end);
+    // Sentinel Hub advertises daily (P1D) or coarser periods; treat the interval as continuously covered
+    return isWithinInterval(day, { start: startOfDay(parseISO(start)), end: endDate });
+  });
+};
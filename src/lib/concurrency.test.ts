@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createRequestQueue } from './concurrency';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createRequestQueue', () => {
+  it('runs at most the given number of calls at once, in order', async () => {
+    const queue = createRequestQueue(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = gates.map((gate, index) => queue(async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    gates[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+    gates[0].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('never starts calls aborted while waiting and frees their place', async () => {
+    const queue = createRequestQueue(1);
+    const gate = deferred();
+    const started: string[] = [];
+    const controller = new AbortController();
+
+    const first = queue(async () => {
+      started.push('first');
+      await gate.promise;
+    });
+    const aborted = queue(async () => {
+      started.push('aborted');
+    }, controller.signal);
+    const last = queue(async () => {
+      started.push('last');
+    });
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+    gate.resolve();
+    await Promise.all([first, last]);
+    expect(started).toEqual(['first', 'last']);
+  });
+
+  it('rejects calls whose signal is already aborted', async () => {
+    const queue = createRequestQueue(1);
+    const controller = new AbortController();
+    controller.abort();
+    let called = false;
+    await expect(queue(async () => {
+      called = true;
+    }, controller.signal)).rejects.toThrow();
+    expect(called).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+// Map items through an async function with a bounded number of calls in flight, preserving order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  fn: (item: T, index: number) => Promise<R>,
+  { concurrency = 6, onProgress }: { concurrency?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+      onProgress?.(++done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
+
+// Share a limit on calls in flight between independent callers; calls aborted while waiting never start
+export const createRequestQueue = (concurrency = 2) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (signal?: AbortSignal) => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release, so nothing can take it in between
+    return new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      };
+      const cancel = () => {
+        waiting.splice(waiting.indexOf(start), 1);
+        reject(signal?.reason);
+      };
+      waiting.push(start);
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async <R>(fn: () => Promise<R>, signal?: AbortSignal): Promise<R> => {
+    await acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+};
+
+export type RequestQueue = ReturnType<typeof createRequestQueue>;
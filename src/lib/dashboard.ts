@@ -0,0 +1,35 @@
+import { format, subDays } from 'date-fns';
+import type { AreaFeature } from './areaStats';
+import type { PointQuery } from './featureInfo';
+import { fetchTimeSeries, TimeSeriesPoint } from './timeSeries';
+
+// How far back the dashboard looks for acquisitions and trends
+export const DASHBOARD_WINDOW_DAYS = 60;
+
+export interface AreaSummary {
+  series: TimeSeriesPoint[];
+  // Most recent acquisition with a valid value
+  latest: { date: string; value: number } | null;
+  // Most recent acquisition, even if clouds or no data hid the area
+  lastAcquisition: string | null;
+}
+
+export const summarizeSeries = (series: TimeSeriesPoint[]): AreaSummary => {
+  const valid = series.filter((point): point is TimeSeriesPoint & { value: number } => point.value !== null);
+  const latest = valid.length > 0 ? { date: valid[valid.length - 1].date, value: valid[valid.length - 1].value } : null;
+  return {
+    series,
+    latest,
+    lastAcquisition: series.length > 0 ? series[series.length - 1].date : null,
+  };
+};
+
+export const fetchAreaSummary = async (
+  query: PointQuery & { typename?: string },
+  feature: AreaFeature,
+  now = new Date()
+): Promise<AreaSummary> => {
+  const time = `${format(subDays(now, DASHBOARD_WINDOW_DAYS), 'yyyy-MM-dd')}/${format(now, 'yyyy-MM-dd')}`;
+  const series = await fetchTimeSeries({ ...query, time }, { type: 'area', feature });
+  return summarizeSeries(series);
+};
@@ -0,0 +1,14 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (content: string, filename: string, type: string) => {
+  downloadBlob(new Blob([content], { type }), filename);
+};
@@ -0,0 +1,77 @@
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import { area, length, polygonToLine } from '@turf/turf';
+import tokml from 'tokml';
+import { downloadFile } from './download';
+
+export type ExportFormat = 'kml' | 'geojson';
+
+export interface ExportMetadata {
+  indicator?: string;
+  layer?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export const MIME_TYPES: Record<ExportFormat, string> = {
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+// Perimeter in meters for polygons, length for lines, 0 for points
+const measurePerimeter = (feature: Feature<Geometry>): number => {
+  switch (feature.geometry.type) {
+    case 'Polygon':
+    case 'MultiPolygon':
+      return length(polygonToLine(feature.geometry), { units: 'kilometers' }) * 1000;
+    case 'LineString':
+    case 'MultiLineString':
+      return length(feature, { units: 'kilometers' }) * 1000;
+    default:
+      return 0;
+  }
+};
+
+// Attach the current selection and measurements to each drawn feature
+export const annotateFeatures = (
+  features: FeatureCollection,
+  metadata: ExportMetadata
+): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: features.features.map((feature, index): Feature => {
+    const areaM2 = feature.geometry ? area(feature) : 0;
+    return {
+      ...feature,
+      properties: {
+        ...feature.properties,
+        name: feature.properties?.name ?? `Area ${index + 1}`,
+        indicator: metadata.indicator ?? null,
+        layer: metadata.layer ?? null,
+        date_from: metadata.dateFrom?.toISOString() ?? null,
+        date_to: metadata.dateTo?.toISOString() ?? null,
+        area_m2: Math.round(areaM2 * 100) / 100,
+        area_ha: Math.round(areaM2 / 100) / 100,
+        perimeter_m: feature.geometry ? Math.round(measurePerimeter(feature) * 100) / 100 : 0,
+      },
+    };
+  }),
+});
+
+export const serializeFeatures = (features: FeatureCollection, format: ExportFormat, documentName = 'Area selection'): string => {
+  if (format === 'kml') {
+    return tokml(features, {
+      documentName,
+      name: 'name',
+      description: 'description',
+    });
+  }
+  return JSON.stringify(features, null, 2);
+};
+
+export const exportFeatures = (
+  features: FeatureCollection,
+  metadata: ExportMetadata,
+  format: ExportFormat
+) => {
+  const content = serializeFeatures(annotateFeatures(features, metadata), format);
+  downloadFile(content, `area-selection.${format}`, MIME_TYPES[format]);
+};
@@ -0,0 +1,157 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { gpx, kml } from '@tmcw/togeojson';
+import { kinks } from '@turf/turf';
+import { strFromU8, unzipSync } from 'fflate';
+
+export const IMPORT_ACCEPT = '.kml,.kmz,.gpx,.geojson,.json';
+
+export interface ImportIssue {
+  feature: string;
+  message: string;
+}
+
+export interface ImportResult {
+  fileName: string;
+  features: Feature[];
+  issues: ImportIssue[];
+}
+
+export const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export const parseXML = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  return doc;
+};
+
+// KMZ is a zip archive holding doc.kml (or another .kml) plus assets
+const extractKMZ = (buffer: ArrayBuffer): string => {
+  const entries = unzipSync(new Uint8Array(buffer));
+  const names = Object.keys(entries).filter((name) => getExtension(name) === 'kml');
+  const main = names.find((name) => name.toLowerCase() === 'doc.kml') ?? names[0];
+  if (!main) {
+    throw new Error('KMZ archive does not contain a KML document');
+  }
+  return strFromU8(entries[main]);
+};
+
+const toFeatureCollection = (data: unknown): FeatureCollection => {
+  const geojson = data as { type?: string };
+  switch (geojson?.type) {
+    case 'FeatureCollection':
+      return geojson as FeatureCollection;
+    case 'Feature':
+      return { type: 'FeatureCollection', features: [geojson as Feature] };
+    case 'Point':
+    case 'MultiPoint':
+    case 'LineString':
+    case 'MultiLineString':
+    case 'Polygon':
+    case 'MultiPolygon':
+    case 'GeometryCollection':
+      return {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', geometry: geojson as Geometry, properties: {} }],
+      };
+    default:
+      throw new Error('File is not a GeoJSON object');
+  }
+};
+
+const isValidPosition = (position: Position) =>
+  Array.isArray(position) &&
+  position.length >= 2 &&
+  Number.isFinite(position[0]) &&
+  Number.isFinite(position[1]) &&
+  Math.abs(position[0]) <= 180 &&
+  Math.abs(position[1]) <= 90;
+
+const validateRing = (ring: Position[]): string | null => {
+  if (!ring.every(isValidPosition)) return 'Coordinates are out of range';
+  if (ring.length < 4) return 'Polygon ring has fewer than 4 positions';
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) return 'Polygon ring is not closed';
+  return null;
+};
+
+// Returns a reason the geometry cannot be used, or null when it is valid
+const validateGeometry = (geometry: Geometry | null): string | null => {
+  if (!geometry) return 'Feature has no geometry';
+
+  switch (geometry.type) {
+    case 'Point':
+      return isValidPosition(geometry.coordinates) ? null : 'Coordinates are out of range';
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates.every(isValidPosition) ? null : 'Coordinates are out of range';
+    case 'MultiLineString':
+      return geometry.coordinates.every((line) => line.every(isValidPosition))
+        ? null
+        : 'Coordinates are out of range';
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      for (const rings of polygons) {
+        if (rings.length === 0) return 'Polygon has no rings';
+        for (const ring of rings) {
+          const reason = validateRing(ring);
+          if (reason) return reason;
+        }
+      }
+      const intersections = kinks(geometry).features.length;
+      return intersections > 0
+        ? `Polygon is self-intersecting (${intersections} ${intersections === 1 ? 'crossing' : 'crossings'})`
+        : null;
+    }
+    case 'GeometryCollection':
+      return 'Geometry collections are not supported';
+    default:
+      return 'Unsupported geometry type';
+  }
+};
+
+const featureLabel = (feature: Feature, index: number): string => {
+  const name = feature.properties?.name;
+  return typeof name === 'string' && name.trim() ? name : `Feature ${index + 1}`;
+};
+
+const parseFile = async (file: File): Promise<FeatureCollection> => {
+  switch (getExtension(file.name)) {
+    case 'kml':
+      return kml(parseXML(await file.text())) as FeatureCollection;
+    case 'kmz':
+      return kml(parseXML(extractKMZ(await file.arrayBuffer()))) as FeatureCollection;
+    case 'gpx':
+      return gpx(parseXML(await file.text())) as FeatureCollection;
+    case 'geojson':
+    case 'json':
+      return toFeatureCollection(JSON.parse(await file.text()));
+    default:
+      throw new Error('Unsupported file type. Use KML, KMZ, GPX or GeoJSON');
+  }
+};
+
+// Parse a file and split its features into usable ones and per-feature issues
+export const importFeatureFile = async (file: File): Promise<ImportResult> => {
+  const collection = await parseFile(file);
+  const features: Feature[] = [];
+  const issues: ImportIssue[] = [];
+
+  collection.features.forEach((feature, index) => {
+    const reason = validateGeometry(feature.geometry);
+    if (reason) {
+      issues.push({ feature: featureLabel(feature, index), message: reason });
+    } else {
+      features.push({ ...feature, properties: { ...feature.properties, name: featureLabel(feature, index) } });
+    }
+  });
+
+  if (collection.features.length === 0) {
+    issues.push({ feature: file.name, message: 'File contains no features' });
+  }
+
+  return { fileName: file.name, features, issues };
+};
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+/// <reference types="node" />
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { latLng } from 'leaflet';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FeatureInfoError, getPointValue, interpretProperties } from './featureInfo';
+
+// Canned responses keyed by the requested layer
+const RESPONSES: Record<string, { status?: number; contentType: string; body: string }> = {
+  CHLA: {
+    contentType: 'application/json',
+    body: JSON.stringify({ features: [{ properties: { CHLA: '3.25', dataMask: 1, date: '2024-03-05' } }] }),
+  },
+  TURBIDITY: {
+    contentType: 'application/vnd.ogc.gml',
+    body: `<?xml version="1.0"?>
+      <wfs:FeatureCollection xmlns:wfs="http://www.opengis.net/wfs" xmlns:gml="http://www.opengis.net/gml" xmlns:sh="https://sentinel-hub.com">
+        <gml:featureMember><sh:TURBIDITY><sh:TURBIDITY>12.5</sh:TURBIDITY><sh:CLM>0</sh:CLM></sh:TURBIDITY></gml:featureMember>
+      </wfs:FeatureCollection>`,
+  },
+  CLOUDY: {
+    contentType: 'application/vnd.ogc.gml',
+    body: `<gml:FeatureCollection xmlns:gml="http://www.opengis.net/gml">
+        <gml:featureMember><CLOUDY><CLOUDY>4</CLOUDY><CLM>1</CLM></CLOUDY></gml:featureMember>
+      </gml:FeatureCollection>`,
+  },
+  TEXT: {
+    contentType: 'application/json',
+    body: JSON.stringify({ features: [{ properties: { name: 'Lake', value: 'n/a' } }] }),
+  },
+  UNKNOWN: {
+    contentType: 'application/vnd.ogc.se_xml',
+    body: '<ServiceExceptionReport><ServiceException>Layer UNKNOWN not found</ServiceException></ServiceExceptionReport>',
+  },
+  FAILING: { status: 500, contentType: 'text/plain', body: 'Internal error' },
+};
+
+let server: Server;
+let url: string;
+const requests: URLSearchParams[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    requests.push(params);
+    const response = RESPONSES[params.get('QUERY_LAYERS') ?? ''];
+    res.writeHead(response?.status ?? 200, { 'Content-Type': response?.contentType ?? 'text/plain' });
+    res.end(response?.body ?? '');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/wms`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const query = (layer: string) => getPointValue({ url, layer, time: '2024-03-01/2024-03-10' }, latLng(-12.05, -77.1));
+
+describe('getPointValue', () => {
+  it('reads the layer value from a JSON response', async () => {
+    await expect(query('CHLA')).resolves.toEqual({ value: 3.25, date: '2024-03-05' });
+    const params = requests[requests.length - 1];
+    expect(params.get('REQUEST')).toBe('GetFeatureInfo');
+    expect(params.get('TIME')).toBe('2024-03-01/2024-03-10');
+    expect(params.get('INFO_FORMAT')).toBe('application/json');
+  });
+
+  it('reads the layer value from a GML response', async () => {
+    await expect(query('TURBIDITY')).resolves.toEqual({ value: 12.5, date: undefined });
+  });
+
+  it('reports cloud masked pixels', async () => {
+    await expect(query('CLOUDY')).resolves.toEqual({ value: null, reason: 'Pixel is masked by clouds', date: undefined });
+  });
+
+  it('treats text properties as no data', async () => {
+    await expect(query('TEXT')).resolves.toMatchObject({ value: null });
+  });
+
+  it('throws the message of a service exception', async () => {
+    await expect(query('UNKNOWN')).rejects.toThrow('Layer UNKNOWN not found');
+  });
+
+  it('throws with the status of a failed request', async () => {
+    const error = await query('FAILING').catch((err) => err);
+    expect(error).toBeInstanceOf(FeatureInfoError);
+    expect(error.status).toBe(500);
+  });
+});
+
+describe('interpretProperties', () => {
+  it('never returns NaN for non-numeric values', () => {
+    expect(interpretProperties({ CHLA: 'abc' }, 'CHLA')).toMatchObject({ value: null });
+    expect(interpretProperties({ CHLA: Number.NaN }, 'CHLA')).toMatchObject({ value: null });
+  });
+
+  it('skips text properties when looking for the value of another layer', () => {
+    expect(interpretProperties({ name: 'Lake', B04: '0.12' }, 'NDWI')).toEqual({ value: 0.12, date: undefined });
+  });
+
+  it('treats fill values as no data', () => {
+    expect(interpretProperties({ CHLA: -9999 }, 'CHLA')).toMatchObject({ value: null });
+  });
+});
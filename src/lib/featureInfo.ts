@@ -0,0 +1,182 @@
+import { latLngBounds, point } from 'leaflet';
+import type { LatLng, LatLngBounds, Point } from 'leaflet';
+import { mapWithConcurrency } from './concurrency';
+
+export type InfoFormat = 'application/json' | 'application/vnd.ogc.gml';
+
+export interface FeatureInfoRequest {
+  url: string;
+  layer: string;
+  bounds: LatLngBounds;
+  size: Point;
+  point: Point;
+  time?: string;
+  infoFormat?: InfoFormat;
+  signal?: AbortSignal;
+}
+
+export type FeatureInfoResult =
+  | { value: number; date?: string }
+  | { value: null; reason: string; date?: string };
+
+export class FeatureInfoError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'FeatureInfoError';
+  }
+}
+
+type Properties = Record<string, unknown>;
+
+// Property names the evalscripts use for the data and cloud masks
+const DATA_MASK_KEYS = ['dataMask', 'DATA_MASK'];
+const CLOUD_MASK_KEYS = ['CLM', 'cloudMask', 'CLOUD_MASK'];
+const DATE_KEYS = ['date', 'time', 'DATE', 'TIME'];
+// Fill values Sentinel Hub and common rasters use for missing pixels
+const NO_DATA_VALUES = [-9999, -32768, 65535];
+
+const NO_DATA_REASON = 'No data for this pixel in the selected dates';
+const CLOUD_REASON = 'Pixel is masked by clouds';
+
+export const buildFeatureInfoParams = ({ layer, bounds, size, point, time, infoFormat = 'application/json' }: FeatureInfoRequest) => {
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    REQUEST: 'GetFeatureInfo',
+    VERSION: '1.3.0',
+    LAYERS: layer,
+    QUERY_LAYERS: layer,
+    INFO_FORMAT: infoFormat,
+    FEATURE_COUNT: '1',
+    I: String(Math.round(point.x)),
+    J: String(Math.round(point.y)),
+    WIDTH: String(size.x),
+    HEIGHT: String(size.y),
+    // WMS 1.3.0 uses latitude/longitude axis order for EPSG:4326
+    CRS: 'EPSG:4326',
+    BBOX: `${bounds.getSouth()},${bounds.getWest()},${bounds.getNorth()},${bounds.getEast()}`,
+  });
+  if (time) params.set('TIME', time);
+  return params;
+};
+
+// Text attributes and NaN are not pixel values
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const findDate = (properties: Properties) => {
+  const key = DATE_KEYS.find((candidate) => typeof properties[candidate] === 'string');
+  return key ? (properties[key] as string) : undefined;
+};
+
+// Turn the properties of the first returned feature into a pixel value or a no-data reason
+export const interpretProperties = (properties: Properties | null, layer: string): FeatureInfoResult => {
+  if (!properties) return { value: null, reason: NO_DATA_REASON };
+  const date = findDate(properties);
+
+  if (DATA_MASK_KEYS.some((key) => key in properties && toNumber(properties[key]) === 0)) {
+    return { value: null, reason: NO_DATA_REASON, date };
+  }
+  if (CLOUD_MASK_KEYS.some((key) => key in properties && toNumber(properties[key]) === 1)) {
+    return { value: null, reason: CLOUD_REASON, date };
+  }
+
+  const ignored = [...DATA_MASK_KEYS, ...CLOUD_MASK_KEYS, ...DATE_KEYS];
+  const key = layer in properties
+    ? layer
+    : Object.keys(properties).find((candidate) => !ignored.includes(candidate) && toNumber(properties[candidate]) !== null);
+  const value = key ? toNumber(properties[key]) : null;
+
+  if (value === null || NO_DATA_VALUES.includes(value)) {
+    return { value: null, reason: NO_DATA_REASON, date };
+  }
+  return { value, date };
+};
+
+const parseJSON = (text: string): Properties | null => {
+  const data = JSON.parse(text);
+  const feature = data?.features?.[0];
+  return feature?.properties ?? null;
+};
+
+// GML responses nest one element per attribute inside each feature member
+const parseGML = (text: string): Properties | null => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new FeatureInfoError('Feature info response is not valid XML');
+  }
+
+  const exception = doc.getElementsByTagNameNS('*', 'ServiceException')[0];
+  if (exception) {
+    throw new FeatureInfoError(exception.textContent?.trim() || 'WMS service exception');
+  }
+
+  const member = doc.getElementsByTagNameNS('*', 'featureMember')[0];
+  const feature = member?.firstElementChild;
+  if (!feature) return null;
+
+  const properties: Properties = {};
+  for (const child of Array.from(feature.children)) {
+    if (child.children.length === 0) {
+      properties[child.localName] = child.textContent?.trim() ?? '';
+    }
+  }
+  return properties;
+};
+
+// Query the value of a single pixel of a WMS layer
+export const getFeatureInfo = async (
+  request: FeatureInfoRequest,
+  fetchImpl: typeof fetch = fetch
+): Promise<FeatureInfoResult> => {
+  const params = buildFeatureInfoParams(request);
+  const response = await fetchImpl(`${request.url}?${params}`, { signal: request.signal });
+  const text = await response.text();
+
+  if (!response.ok) {
+    throw new FeatureInfoError(`GetFeatureInfo failed with status ${response.status}`, response.status);
+  }
+
+  // Servers may answer with GML or a service exception regardless of the requested format
+  const contentType = response.headers.get('content-type') ?? '';
+  const properties = contentType.includes('json') ? parseJSON(text) : parseGML(text);
+  return interpretProperties(properties, request.layer);
+};
+
+export interface PointQuery {
+  url: string;
+  layer: string;
+  time?: string;
+  signal?: AbortSignal;
+}
+
+// Half the side of the window queried around a point, roughly one Sentinel-2 pixel
+const POINT_WINDOW_DEGREES = 0.00005;
+
+// Query a single location without depending on the current map view
+export const getPointValue = (query: PointQuery, latlng: LatLng, fetchImpl: typeof fetch = fetch) =>
+  getFeatureInfo({
+    ...query,
+    bounds: latLngBounds(
+      [latlng.lat - POINT_WINDOW_DEGREES, latlng.lng - POINT_WINDOW_DEGREES],
+      [latlng.lat + POINT_WINDOW_DEGREES, latlng.lng + POINT_WINDOW_DEGREES]
+    ),
+    size: point(3, 3),
+    point: point(1, 1),
+  }, fetchImpl);
+
+// Query many locations with a bounded number of requests in flight; failed points resolve as no data
+export const getPointValues = (
+  query: PointQuery,
+  latlngs: LatLng[],
+  options?: { concurrency?: number; onProgress?: (done: number, total: number) => void }
+): Promise<FeatureInfoResult[]> =>
+  mapWithConcurrency(latlngs, async (latlng): Promise<FeatureInfoResult> => {
+    try {
+      return await getPointValue(query, latlng);
+    } catch (error) {
+      if (query.signal?.aborted) throw error;
+      return { value: null, reason: error instanceof Error ? error.message : 'Request failed' };
+    }
+  }, options);
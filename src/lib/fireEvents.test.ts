@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { buildFireEvents, classifyFirePixels, extractBurnedAreas, FireHotspot, FireRaster } from './fireEvents';
+
+const rgba = (hex: string, alpha = 255) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, alpha];
+};
+
+describe('classifyFirePixels', () => {
+  it('reads classes from the colors the evalscript renders', () => {
+    // Active fires come out as [255, 0, 0], burned areas as [255, 255, 0]
+    const pixels = new Uint8ClampedArray([
+      255, 0, 0, 255,
+      255, 255, 0, 255,
+      ...rgba('#2563eb'),
+      255, 0, 0, 0,
+    ]);
+    expect(Array.from(classifyFirePixels(pixels))).toEqual([1, 2, 0, 0]);
+  });
+
+  it('tolerates colors blended by resampling', () => {
+    const pixels = new Uint8ClampedArray([...rgba('#f01010'), ...rgba('#f0f020')]);
+    expect(Array.from(classifyFirePixels(pixels))).toEqual([1, 2]);
+  });
+});
+
+// 10 by 10 pixels of about 1.1 km, with a 3 by 3 pixel burned block
+const raster = (date: string): FireRaster => {
+  const classes = new Uint8Array(100);
+  for (let row = 3; row < 6; row++) {
+    for (let column = 3; column < 6; column++) classes[row * 10 + column] = 2;
+  }
+  return { date, west: 0, south: 0, east: 0.1, north: 0.1, width: 10, height: 10, classes };
+};
+
+const hotspot = (date: string, lat: number, lng: number): FireHotspot => ({ date, lat, lng, pixels: 1 });
+
+describe('extractBurnedAreas', () => {
+  it('outlines burned pixels as polygons with their area', () => {
+    const [burned, ...rest] = extractBurnedAreas(raster('2024-03-05'));
+    expect(rest).toEqual([]);
+    expect(burned.feature.geometry.type).toBe('Polygon');
+    // Contours run between pixel centers, so the outline is between 2 and 4 pixels wide
+    expect(burned.areaHa).toBeGreaterThan(2 * 2 * 123);
+    expect(burned.areaHa).toBeLessThan(4 * 4 * 123);
+  });
+});
+
+describe('buildFireEvents', () => {
+  it('links hotspots inside or near a burned area and keeps distant ones apart', () => {
+    const burned = extractBurnedAreas(raster('2024-03-10'));
+    const events = buildFireEvents([
+      { date: '2024-03-05', hotspots: [hotspot('2024-03-05', 0.055, 0.045), hotspot('2024-03-05', 0.05, 0.065)], burned: [] },
+      { date: '2024-03-10', hotspots: [hotspot('2024-03-10', 0.09, 0.01)], burned },
+    ]);
+
+    expect(events).toHaveLength(2);
+    const [grown, distant] = [...events].sort((a, b) => b.hotspots.length - a.hotspots.length);
+    expect(grown.hotspots.map((item) => item.date)).toEqual(['2024-03-05', '2024-03-05']);
+    expect(grown.log.map((entry) => entry.date)).toEqual(['2024-03-05', '2024-03-10']);
+    expect(grown.log[1].growthHa).toBe(grown.log[1].burnedHa);
+    expect(distant.hotspots).toHaveLength(1);
+    expect(distant.burned).toEqual([]);
+  });
+
+  it('merges overlapping burned areas from different dates', () => {
+    const events = buildFireEvents([raster('2024-03-05'), raster('2024-03-10')].map((item) => ({
+      date: item.date,
+      hotspots: [],
+      burned: extractBurnedAreas(item),
+    })));
+    expect(events).toHaveLength(1);
+    expect(events[0].firstDate).toBe('2024-03-05');
+    expect(events[0].lastDate).toBe('2024-03-10');
+  });
+});
@@ -0,0 +1,395 @@
+import type { Feature, FeatureCollection, Point, Polygon } from 'geojson';
+import {
+  area,
+  bbox,
+  booleanDisjoint,
+  booleanPointInPolygon,
+  distance,
+  flatten,
+  isobands,
+  lineString,
+  point,
+  pointToLineDistance,
+} from '@turf/turf';
+import { latLngBounds } from 'leaflet';
+import { fetchAcquisitionDates } from './acquisitions';
+import type { AreaFeature } from './areaStats';
+import { mapWithConcurrency } from './concurrency';
+import { downloadFile } from './download';
+import { ExportFormat, MIME_TYPES, serializeFeatures } from './featureExport';
+import type { PointQuery } from './featureInfo';
+import { forestFires } from './indicators/forestFires';
+import { loadImage } from './mapSnapshot';
+
+// Pixel classes of a fire raster
+const NONE = 0;
+const ACTIVE = 1;
+const BURNED = 2;
+
+// One acquisition of the fire layer over an area, classified pixel by pixel
+export interface FireRaster {
+  date: string;
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  width: number;
+  height: number;
+  // Class of each pixel (none, active fire or burned), row by row from the north-west corner
+  classes: Uint8Array;
+}
+
+// Contiguous group of active fire pixels on one date
+export interface FireHotspot {
+  date: string;
+  lat: number;
+  lng: number;
+  pixels: number;
+}
+
+export interface BurnedArea {
+  date: string;
+  feature: Feature<Polygon>;
+  areaHa: number;
+}
+
+export interface FireSnapshot {
+  date: string;
+  hotspots: FireHotspot[];
+  burned: BurnedArea[];
+}
+
+export interface FireLogEntry {
+  date: string;
+  hotspots: number;
+  burnedHa: number;
+  // Change in burned area since the previous entry of the event
+  growthHa: number;
+}
+
+export interface FireEvent {
+  id: number;
+  firstDate: string;
+  lastDate: string;
+  hotspots: FireHotspot[];
+  // Footprint on the latest date the event had burned area
+  burned: BurnedArea[];
+  burnedHa: number;
+  log: FireLogEntry[];
+}
+
+export interface FireAnalysis {
+  dates: string[];
+  // The scene search hit its limit, so some acquisitions may be missing
+  truncated: boolean;
+  events: FireEvent[];
+}
+
+// Hotspots and burned areas closer than this are taken as one event
+export const EVENT_DISTANCE_KM = 1;
+
+// Longest side of the raster requested per date; about 40 m pixels over a 10 km area
+const MAX_RASTER_SIZE = 256;
+// How far a resampled pixel may drift from a class color, in RGB units
+const COLOR_TOLERANCE = 48;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const [activeClass, burnedClass] = forestFires.classes;
+const FIRE_COLORS: [number, [number, number, number]][] = [
+  [ACTIVE, hexToRgb(activeClass.color)],
+  [BURNED, hexToRgb(burnedClass.color)],
+];
+
+export const classifyFirePixels = (rgba: Uint8ClampedArray): Uint8Array => {
+  const classes = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < classes.length; i++) {
+    if (rgba[i * 4 + 3] < 128) continue;
+    let best = NONE;
+    let bestDistance = COLOR_TOLERANCE ** 2;
+    for (const [fireClass, [r, g, b]] of FIRE_COLORS) {
+      const d = (rgba[i * 4] - r) ** 2 + (rgba[i * 4 + 1] - g) ** 2 + (rgba[i * 4 + 2] - b) ** 2;
+      if (d <= bestDistance) {
+        best = fireClass;
+        bestDistance = d;
+      }
+    }
+    classes[i] = best;
+  }
+  return classes;
+};
+
+// Raster dimensions with roughly square pixels on the ground
+export const fireRasterSize = ([west, south, east, north]: number[], maxSize = MAX_RASTER_SIZE) => {
+  const width = (east - west) * Math.cos((((south + north) / 2) * Math.PI) / 180);
+  const height = north - south;
+  const scale = maxSize / Math.max(width, height, Number.EPSILON);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const pixelCenter = (raster: FireRaster, column: number, row: number): [number, number] => [
+  raster.west + ((column + 0.5) / raster.width) * (raster.east - raster.west),
+  raster.north - ((row + 0.5) / raster.height) * (raster.north - raster.south),
+];
+
+// Render the fire layer over the area for one date and classify its pixels; outside the area is left empty
+export const fetchFireRaster = async (query: PointQuery & { time: string }, feature: AreaFeature): Promise<FireRaster> => {
+  const [west, south, east, north] = bbox(feature);
+  const { width, height } = fireRasterSize([west, south, east, north]);
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    REQUEST: 'GetMap',
+    VERSION: '1.3.0',
+    LAYERS: query.layer,
+    STYLES: '',
+    FORMAT: 'image/png',
+    TRANSPARENT: 'true',
+    // WMS 1.3.0 uses latitude/longitude axis order for EPSG:4326
+    CRS: 'EPSG:4326',
+    BBOX: `${south},${west},${north},${east}`,
+    WIDTH: String(width),
+    HEIGHT: String(height),
+    TIME: query.time,
+  });
+
+  const image = await loadImage(`${query.url}?${params}`);
+  query.signal?.throwIfAborted();
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const raster: FireRaster = {
+    date: query.time,
+    west,
+    south,
+    east,
+    north,
+    width,
+    height,
+    classes: classifyFirePixels(ctx.getImageData(0, 0, width, height).data),
+  };
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const index = row * width + column;
+      if (raster.classes[index] !== NONE && !booleanPointInPolygon(pixelCenter(raster, column, row), feature)) {
+        raster.classes[index] = NONE;
+      }
+    }
+  }
+  return raster;
+};
+
+// Group active fire pixels touching each other, diagonals included, into hotspots
+export const extractHotspots = (raster: FireRaster): FireHotspot[] => {
+  const { width, height, classes } = raster;
+  const visited = new Uint8Array(classes.length);
+  const hotspots: FireHotspot[] = [];
+
+  for (let start = 0; start < classes.length; start++) {
+    if (classes[start] !== ACTIVE || visited[start]) continue;
+    const stack = [start];
+    visited[start] = 1;
+    let pixels = 0;
+    let lngSum = 0;
+    let latSum = 0;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const column = index % width;
+      const row = Math.floor(index / width);
+      const [lng, lat] = pixelCenter(raster, column, row);
+      pixels++;
+      lngSum += lng;
+      latSum += lat;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const x = column + dx;
+          const y = row + dy;
+          if (x < 0 || y < 0 || x >= width || y >= height) continue;
+          const neighbor = y * width + x;
+          if (classes[neighbor] === ACTIVE && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    hotspots.push({ date: raster.date, lat: latSum / pixels, lng: lngSum / pixels, pixels });
+  }
+  return hotspots;
+};
+
+// Outline the burned pixels (active fires included) as polygons
+export const extractBurnedAreas = (raster: FireRaster): BurnedArea[] => {
+  if (!raster.classes.some((value) => value !== NONE)) return [];
+
+  // A ring of empty cells around the raster closes polygons that reach its edge
+  const grid: Feature<Point>[] = [];
+  for (let row = -1; row <= raster.height; row++) {
+    const [, lat] = pixelCenter(raster, 0, row);
+    for (let column = -1; column <= raster.width; column++) {
+      const [lng] = pixelCenter(raster, column, 0);
+      const inside = row >= 0 && column >= 0 && row < raster.height && column < raster.width;
+      const burned = inside && raster.classes[row * raster.width + column] !== NONE;
+      grid.push(point([lng, lat], { burned: burned ? 1 : 0 }));
+    }
+  }
+
+  const bands = isobands({ type: 'FeatureCollection', features: grid }, [0.5, 1.5], { zProperty: 'burned' });
+  return bands.features
+    .flatMap((band) => flatten(band).features)
+    .map((feature): BurnedArea => {
+      const polygon: Feature<Polygon> = { type: 'Feature', geometry: feature.geometry, properties: {} };
+      return { date: raster.date, feature: polygon, areaHa: area(polygon) / 10000 };
+    })
+    .filter((burned) => burned.areaHa > 0);
+};
+
+export const toFireSnapshot = (raster: FireRaster): FireSnapshot => ({
+  date: raster.date,
+  hotspots: extractHotspots(raster),
+  burned: extractBurnedAreas(raster),
+});
+
+type Detection = { kind: 'hotspot'; hotspot: FireHotspot } | { kind: 'burned'; burned: BurnedArea };
+
+const isNear = (a: Detection, b: Detection): boolean => {
+  if (a.kind === 'hotspot' && b.kind === 'hotspot') {
+    return distance([a.hotspot.lng, a.hotspot.lat], [b.hotspot.lng, b.hotspot.lat], { units: 'kilometers' }) <= EVENT_DISTANCE_KM;
+  }
+  if (a.kind === 'burned' && b.kind === 'burned') {
+    return !booleanDisjoint(a.burned.feature, b.burned.feature);
+  }
+  const { hotspot } = (a.kind === 'hotspot' ? a : b) as { hotspot: FireHotspot };
+  const { burned } = (a.kind === 'burned' ? a : b) as { burned: BurnedArea };
+  // Inside the burned area or within the distance of one of its rings
+  const position = point([hotspot.lng, hotspot.lat]);
+  return booleanPointInPolygon(position, burned.feature) || burned.feature.geometry.coordinates.some((ring) =>
+    pointToLineDistance(position, lineString(ring), { units: 'kilometers' }) <= EVENT_DISTANCE_KM
+  );
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Link hotspots and burned areas from every date that lie close together, or overlap, into events
+// and trace how each one grew from date to date
+export const buildFireEvents = (snapshots: FireSnapshot[]): FireEvent[] => {
+  const detections: Detection[] = snapshots.flatMap((snapshot) => [
+    ...snapshot.hotspots.map((hotspot): Detection => ({ kind: 'hotspot', hotspot })),
+    ...snapshot.burned.map((burned): Detection => ({ kind: 'burned', burned })),
+  ]);
+
+  // Union-find over the detections
+  const parents = detections.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+  for (let i = 0; i < detections.length; i++) {
+    for (let j = i + 1; j < detections.length; j++) {
+      if (find(i) !== find(j) && isNear(detections[i], detections[j])) {
+        parents[find(i)] = find(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, Detection[]>();
+  detections.forEach((detection, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), detection]);
+  });
+
+  const events = Array.from(groups.values()).map((group) => {
+    const hotspots = group.flatMap((detection) => (detection.kind === 'hotspot' ? [detection.hotspot] : []));
+    const burned = group.flatMap((detection) => (detection.kind === 'burned' ? [detection.burned] : []));
+    const dates = Array.from(new Set(group.map((detection) =>
+      detection.kind === 'hotspot' ? detection.hotspot.date : detection.burned.date
+    ))).sort();
+
+    let previousHa = 0;
+    const log = dates.map((date): FireLogEntry => {
+      const burnedHa = burned.filter((item) => item.date === date).reduce((sum, item) => sum + item.areaHa, 0);
+      const entry = {
+        date,
+        hotspots: hotspots.filter((hotspot) => hotspot.date === date).length,
+        burnedHa: round(burnedHa),
+        growthHa: round(burnedHa - previousHa),
+      };
+      previousHa = burnedHa;
+      return entry;
+    });
+
+    const lastBurnedDate = burned.map((item) => item.date).sort().pop();
+    const footprint = burned.filter((item) => item.date === lastBurnedDate);
+    return {
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1],
+      hotspots,
+      burned: footprint,
+      burnedHa: round(footprint.reduce((sum, item) => sum + item.areaHa, 0)),
+      log,
+    };
+  });
+
+  return events
+    .sort((a, b) => a.firstDate.localeCompare(b.firstDate) || b.burnedHa - a.burnedHa)
+    .map((event, index) => ({ id: index + 1, ...event }));
+};
+
+// Fire events in the area from every acquisition within the time window
+export const fetchFireAnalysis = async (
+  query: PointQuery & { time: string; typename?: string },
+  feature: AreaFeature,
+  onProgress?: (done: number, total: number) => void
+): Promise<FireAnalysis> => {
+  const [west, south, east, north] = bbox(feature);
+  const { dates, truncated } = await fetchAcquisitionDates(query.url, {
+    bounds: latLngBounds([south, west], [north, east]),
+    time: query.time,
+    typename: query.typename,
+    signal: query.signal,
+  });
+
+  const snapshots = await mapWithConcurrency(dates, async (date) => {
+    query.signal?.throwIfAborted();
+    return toFireSnapshot(await fetchFireRaster({ ...query, time: date }, feature));
+  }, { concurrency: 2, onProgress });
+
+  return { dates, truncated, events: buildFireEvents(snapshots) };
+};
+
+// Burned area polygons of each event, with the figures reports need as properties
+export const fireEventsToFeatures = (events: FireEvent[]): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: events.flatMap((event) =>
+    event.burned.map((burned): Feature => ({
+      ...burned.feature,
+      properties: {
+        name: `Fire event ${event.id}`,
+        description: `${burned.areaHa.toFixed(2)} ha burned on ${burned.date}; active from ${event.firstDate} to ${event.lastDate}`,
+        event: event.id,
+        date: burned.date,
+        area_ha: round(burned.areaHa),
+        event_area_ha: event.burnedHa,
+        first_detected: event.firstDate,
+        last_detected: event.lastDate,
+        hotspots: event.hotspots.length,
+      },
+    }))
+  ),
+});
+
+export const exportFireEvents = (events: FireEvent[], format: ExportFormat) => {
+  const content = serializeFeatures(fireEventsToFeatures(events), format, 'Fire events');
+  downloadFile(content, `fire-events.${format}`, MIME_TYPES[format]);
+};
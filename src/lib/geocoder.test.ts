@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createNominatimProvider, parseCoordinates } from './geocoder';
+
+describe('parseCoordinates', () => {
+  it('reads decimal degrees with latitude first', () => {
+    expect(parseCoordinates('20.27, -103.2')).toEqual({ lat: 20.27, lng: -103.2 });
+    expect(parseCoordinates('20.27 -103.2')).toEqual({ lat: 20.27, lng: -103.2 });
+  });
+
+  it('reads degrees, minutes and seconds with hemispheres in either order', () => {
+    const expected = { lat: 20 + 16 / 60 + 12 / 3600, lng: -(103 + 12 / 60) };
+    expect(parseCoordinates('20°16\'12"N 103°12\'W')).toEqual(expected);
+    expect(parseCoordinates('103°12\'W, 20°16\'12"N')).toEqual(expected);
+  });
+
+  it('ignores place names and out of range values', () => {
+    expect(parseCoordinates('Lake Chapala')).toBeNull();
+    expect(parseCoordinates('95, 20')).toBeNull();
+  });
+});
+
+describe('createNominatimProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset().mockImplementation(async () => new Response('[]', { headers: { 'Content-Type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('spaces requests by the minimum interval', async () => {
+    const provider = createNominatimProvider({ minIntervalMs: 1000 });
+    await provider.search('first');
+    const second = provider.search('second');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await second;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep the slot of a search aborted while waiting', async () => {
+    const provider = createNominatimProvider({ minIntervalMs: 1000 });
+    await provider.search('first');
+
+    const controller = new AbortController();
+    const aborted = provider.search('aborted', controller.signal);
+    const rejection = expect(aborted).rejects.toThrow('Aborted');
+    controller.abort();
+    await rejection;
+
+    // Only the first search's interval is left to wait, not another one for the aborted search
+    const next = provider.search('next');
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toContain('q=next');
+  });
+
+  it('runs searches woken together one interval apart', async () => {
+    const provider = createNominatimProvider({ minIntervalMs: 1000 });
+    await provider.search('first');
+    const searches = [provider.search('second'), provider.search('third')];
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(searches);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
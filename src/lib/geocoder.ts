@@ -0,0 +1,190 @@
+export interface GeocodeResult {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+  // [west, south, east, north] in degrees, when the place has an extent
+  bbox?: [number, number, number, number];
+}
+
+// A geocoding service; implement this to swap Nominatim for another backend
+export interface GeocoderProvider {
+  name: string;
+  search: (query: string, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+}
+
+export interface LRUCache<K, V> {
+  get: (key: K) => V | undefined;
+  set: (key: K, value: V) => void;
+}
+
+// Least recently used entries are dropped first once the cache is full
+export const createLRUCache = <K, V>(capacity: number): LRUCache<K, V> => {
+  // Maps iterate in insertion order, so the first key is the least recently used
+  const entries = new Map<K, V>();
+  return {
+    get: (key) => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key)!;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > capacity) entries.delete(entries.keys().next().value as K);
+    },
+  };
+};
+
+// Hemisphere letter at either end of a coordinate; a lowercase s right after a number is seconds
+const hemisphereOf = (part: string) => {
+  if (/^[NSEW]/i.test(part)) return part[0].toUpperCase();
+  const last = part[part.length - 1];
+  if (/[NSEWnew]/.test(last) || (last === 's' && !/\d$/.test(part.slice(0, -1)))) return last.toUpperCase();
+  return undefined;
+};
+
+// One coordinate in decimal degrees or degrees, minutes and seconds
+const parseCoordinate = (part: string) => {
+  const hemisphere = hemisphereOf(part);
+  const body = hemisphere ? (/^[NSEW]/i.test(part) ? part.slice(1) : part.slice(0, -1)) : part;
+  const numbers = body.match(/-?\d+(?:\.\d+)?/g) ?? [];
+  const leftover = body.replace(/-?\d+(?:\.\d+)?/g, '').replace(/[°'"′″dms\s]/g, '');
+  if (numbers.length === 0 || numbers.length > 3 || leftover) return null;
+
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number);
+  if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) return null;
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const negative = degrees < 0 || Object.is(degrees, -0) || hemisphere === 'S' || hemisphere === 'W';
+  return { value: negative ? -value : value, hemisphere };
+};
+
+const isLongitude = (hemisphere?: string) => hemisphere === 'E' || hemisphere === 'W';
+
+// Coordinates typed in the search box: "20.27, -103.2", "20.27 -103.2" or DMS like
+// 20°16'12"N 103°12'W. Latitude comes first unless hemispheres say otherwise
+export const parseCoordinates = (text: string): { lat: number; lng: number } | null => {
+  const trimmed = text.trim();
+  const byComma = trimmed.split(/\s*[,;]\s*/);
+  const tokens = trimmed.split(/\s+/);
+  const splits: [string, string][] = byComma.length === 2
+    ? [[byComma[0], byComma[1]]]
+    : tokens.slice(1).map((_, i) => [tokens.slice(0, i + 1).join(' '), tokens.slice(i + 1).join(' ')]);
+
+  for (const [first, second] of splits) {
+    const a = parseCoordinate(first);
+    const b = parseCoordinate(second);
+    if (!a || !b) continue;
+    if (a.hemisphere && b.hemisphere && isLongitude(a.hemisphere) === isLongitude(b.hemisphere)) continue;
+    const [lat, lng] = isLongitude(a.hemisphere) || (b.hemisphere && !isLongitude(b.hemisphere))
+      ? [b.value, a.value]
+      : [a.value, b.value];
+    if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) return { lat, lng };
+  }
+  return null;
+};
+
+interface NominatimOptions {
+  url?: string;
+  // Sent with each request as the usage policy asks of heavy users
+  email?: string;
+  limit?: number;
+  // Nominatim allows at most one request per second
+  minIntervalMs?: number;
+}
+
+interface NominatimPlace {
+  place_id: number;
+  display_name: string;
+  lat: string;
+  lon: string;
+  // [south, north, west, east] as strings
+  boundingbox?: string[];
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const createNominatimProvider = ({
+  url = 'https://nominatim.openstreetmap.org',
+  email,
+  limit = 5,
+  minIntervalMs = 1000,
+}: NominatimOptions = {}): GeocoderProvider => {
+  let nextRequestAt = 0;
+
+  return {
+    name: `nominatim:${url}`,
+    search: async (query, signal) => {
+      // The slot is taken only once the wait is over, so a search aborted while waiting
+      // doesn't hold back the next one; searches woken together wait again in turn
+      while (nextRequestAt > Date.now()) await wait(nextRequestAt - Date.now(), signal);
+      nextRequestAt = Date.now() + minIntervalMs;
+
+      const params = new URLSearchParams({ format: 'json', q: query, limit: String(limit) });
+      if (email) params.set('email', email);
+      const response = await fetch(`${url.replace(/\/$/, '')}/search?${params}`, { signal });
+      if (!response.ok) throw new Error(`Geocoder responded ${response.status}`);
+
+      const places = (await response.json()) as NominatimPlace[];
+      return places.map((place) => {
+        const [south, north, west, east] = (place.boundingbox ?? []).map(Number);
+        return {
+          id: String(place.place_id),
+          label: place.display_name,
+          lat: Number(place.lat),
+          lng: Number(place.lon),
+          bbox: place.boundingbox ? [west, south, east, north] : undefined,
+        };
+      });
+    },
+  };
+};
+
+export interface Geocoder {
+  search: (query: string, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+}
+
+export const MIN_QUERY_LENGTH = 3;
+
+// Resolves typed coordinates locally and caches what the provider returns
+export const createGeocoder = (provider: GeocoderProvider, cacheSize = 50): Geocoder => {
+  const cache = createLRUCache<string, GeocodeResult[]>(cacheSize);
+
+  return {
+    search: async (query, signal) => {
+      const coordinates = parseCoordinates(query);
+      if (coordinates) {
+        const label = `${coordinates.lat.toFixed(5)}, ${coordinates.lng.toFixed(5)}`;
+        return [{ id: `coordinates:${label}`, label, ...coordinates }];
+      }
+
+      const key = query.trim().toLowerCase().replace(/\s+/g, ' ');
+      if (key.length < MIN_QUERY_LENGTH) return [];
+      const cached = cache.get(key);
+      if (cached) return cached;
+
+      const results = await provider.search(key, signal);
+      cache.set(key, results);
+      return results;
+    },
+  };
+};
+
+// Self-hosted instances are configured through the environment
+export const geocoder = createGeocoder(
+  createNominatimProvider({
+    url: import.meta.env.VITE_NOMINATIM_URL,
+    email: import.meta.env.VITE_NOMINATIM_EMAIL,
+    // Own instances aren't bound by the public usage policy
+    minIntervalMs: import.meta.env.VITE_NOMINATIM_URL ? 0 : 1000,
+  })
+);
@@ -0,0 +1,23 @@
+import { Droplets } from 'lucide-react';
+import { GOOD, MEDIUM, POOR } from './qualityClasses';
+import type { ContinuousIndicator } from './types';
+
+export const chlorophyll: ContinuousIndicator = {
+  id: 'chlorophyll-a',
+  type: 'continuous',
+  name: 'Chlorophyll-a',
+  icon: Droplets,
+  layer: 'CHLA',
+  unit: 'mg/m³',
+  colormap: [
+    { value: 0, color: '#0c2c84' },
+    { value: 2.5, color: '#1d91c0' },
+    { value: 5, color: '#41b6c4' },
+    { value: 7, color: '#c7e9b4' },
+    { value: 8.5, color: '#fecc5c' },
+    { value: 10, color: '#e31a1c' }
+  ],
+  classification: { direction: 'lower-is-better', classes: [GOOD, MEDIUM, POOR], breaks: [2.5, 7], range: [0, 10] },
+  description: 'Chlorophyll-a is the primary photosynthetic pigment found in all plants and algae. High concentrations in water bodies indicate algal blooms, which can affect water quality and ecosystem health. Regular monitoring helps identify potential eutrophication issues and assess the overall health of aquatic ecosystems.',
+  quote: 'Reference: Gitelson, A. A., et al. (2008). "A simple semi-analytical model for remote estimation of chlorophyll-a in turbid waters." Remote Sensing of Environment, 112(9), 3582-3593.'
+};
@@ -0,0 +1,23 @@
+import { Wind } from 'lucide-react';
+import { GOOD, MEDIUM, POOR } from './qualityClasses';
+import type { ContinuousIndicator } from './types';
+
+export const dissolvedOxygen: ContinuousIndicator = {
+  id: 'dissolved-oxygen',
+  type: 'continuous',
+  name: 'Dissolved Oxygen',
+  icon: Wind,
+  layer: 'DISSOLVED-OXYGEN',
+  unit: 'mg/L',
+  colormap: [
+    { value: 0, color: '#800026' },
+    { value: 3, color: '#e31a1c' },
+    { value: 5, color: '#fd8d3c' },
+    { value: 8, color: '#ffffb2' },
+    { value: 11, color: '#41b6c4' },
+    { value: 14, color: '#253494' }
+  ],
+  classification: { direction: 'higher-is-better', classes: [GOOD, MEDIUM, POOR], breaks: [8, 5], range: [0, 14] },
+  description: 'Dissolved oxygen (DO) is essential for aquatic life and ecosystem health. Low DO levels can stress or kill fish and other organisms. Levels are affected by temperature, atmospheric pressure, biological activity, and water movement. Healthy water bodies typically maintain DO levels between 6-10 mg/L.',
+  quote: 'Reference: Diaz, R. J., & Rosenberg, R. (2008). "Spreading dead zones and consequences for marine ecosystems." Science, 321(5891), 926-929.'
+};
@@ -0,0 +1,17 @@
+import { Flame } from 'lucide-react';
+import type { DiscreteIndicator } from './types';
+
+export const forestFires: DiscreteIndicator = {
+  id: 'forest-fires',
+  type: 'discrete',
+  name: 'Forest Fires',
+  icon: Flame,
+  layer: 'INCENDIOS-FORESTALES',
+  // The colors the layer's evalscript paints each class with; fire events are read back from them
+  classes: [
+    { label: 'Active Fires', color: '#ff0000' },
+    { label: 'Burned Areas', color: '#ffff00' }
+  ],
+  description: 'Satellite-based monitoring of forest fires. Red indicators show currently active fires, while yellow areas represent recently burned zones. This information is crucial for emergency response and forest management.',
+  quote: 'Reference: Giglio, L., et al. (2016). "Active fire detection and characterization with the MODIS sensor." Remote Sensing of Environment, 178, 31-41.'
+};
@@ -0,0 +1,57 @@
+import { Layers } from 'lucide-react';
+import type { WMSCapabilities } from '../capabilities';
+import { chlorophyll } from './chlorophyll';
+import { dissolvedOxygen } from './dissolvedOxygen';
+import { forestFires } from './forestFires';
+import { naturalColor } from './naturalColor';
+import { totalSuspendedSolids } from './totalSuspendedSolids';
+import { turbidity } from './turbidity';
+import type { Indicator, WMSIndicator } from './types';
+
+export * from './types';
+
+// Adding an indicator takes its own file and an entry here, in the order shown in the panel
+export const INDICATORS: Indicator[] = [
+  naturalColor,
+  chlorophyll,
+  dissolvedOxygen,
+  totalSuspendedSolids,
+  turbidity,
+  forestFires
+];
+
+export const DEFAULT_INDICATOR = INDICATORS[0];
+
+export const findIndicator = (layer?: string) =>
+  INDICATORS.find((indicator) => indicator.layer && indicator.layer === layer);
+
+// Indicators that declare a classification, keyed by layer
+export const getDefaultClassifications = () =>
+  Object.fromEntries(
+    INDICATORS.flatMap((indicator) =>
+      indicator.type === 'continuous' && indicator.classification ? [[indicator.layer, indicator.classification] as const] : []
+    )
+  );
+
+// Keep registry entries the instance still publishes and append any layers it added
+export const mergeIndicators = (capabilities: WMSCapabilities | null): Indicator[] => {
+  if (!capabilities) return INDICATORS;
+  const published = new Set(capabilities.layers.map((layer) => layer.name));
+  const known = new Set(INDICATORS.map((indicator) => indicator.layer).filter(Boolean));
+
+  const registered = INDICATORS.filter((indicator) => !indicator.layer || published.has(indicator.layer));
+  const discovered = capabilities.layers
+    .filter((layer) => !known.has(layer.name))
+    .map((layer): WMSIndicator => ({
+      id: `wms-${layer.name}`,
+      type: 'wms',
+      name: layer.title,
+      icon: Layers,
+      layer: layer.name,
+      legendUrl: layer.styles.find((style) => style.legendUrl)?.legendUrl,
+      description: layer.abstract ?? '',
+      quote: capabilities.title ? `Source: ${capabilities.title}` : ''
+    }));
+
+  return [...registered, ...discovered];
+};
@@ -0,0 +1,11 @@
+import { Eye } from 'lucide-react';
+import type { NaturalIndicator } from './types';
+
+export const naturalColor: NaturalIndicator = {
+  id: 'natural-color',
+  type: 'natural',
+  name: 'Natural Color',
+  icon: Eye,
+  description: 'Natural satellite imagery showing Earth as it appears to the human eye. This view helps identify surface features, vegetatNatural color satellite imagery utilizes a combination of visible red, green, and blue bands to create images that closely resemble how the human eye perceives the Earth. This method allows for the effective analysis of land cover, vegetation health, and urban development, providing critical insights into environmental changes and anthropogenic impactsion patterns, and water bodies in their true colors.',
+  quote: '"Natural satellite imagery showing Earth as it appears to the human eye. This view helps identify surface features, vegetation patterns, and water bodies in their true colors'
+};
@@ -0,0 +1,4 @@
+// Classes shared by the default classification of the water quality parameters
+export const GOOD = { label: 'Good', color: '#22c55e' };
+export const MEDIUM = { label: 'Medium', color: '#eab308' };
+export const POOR = { label: 'Poor', color: '#ef4444' };
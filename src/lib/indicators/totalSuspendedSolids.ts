@@ -0,0 +1,23 @@
+import { Container } from 'lucide-react';
+import { GOOD, MEDIUM, POOR } from './qualityClasses';
+import type { ContinuousIndicator } from './types';
+
+export const totalSuspendedSolids: ContinuousIndicator = {
+  id: 'total-suspended-solids',
+  type: 'continuous',
+  name: 'Total Suspended Solids',
+  icon: Container,
+  layer: 'TOTAL-SUSPENDED-SOLIDS',
+  unit: 'mg/L',
+  colormap: [
+    { value: 0, color: '#08306b' },
+    { value: 15, color: '#2171b5' },
+    { value: 30, color: '#6baed6' },
+    { value: 50, color: '#f6e8c3' },
+    { value: 70, color: '#bf812d' },
+    { value: 100, color: '#543005' }
+  ],
+  classification: { direction: 'lower-is-better', classes: [GOOD, MEDIUM, POOR], breaks: [30, 70], range: [0, 100] },
+  description: 'Total Suspended Solids (TSS) measures particles suspended in water, including sediment, algae, and organic matter. High TSS levels can reduce water clarity, affect aquatic life, and indicate pollution or erosion. It\'s a key indicator of water quality and can impact ecosystem functioning and recreational water use.',
+  quote: 'Reference: Ritchie, J. C., et al. (2003). "Remote sensing techniques to assess water quality." Photogrammetric Engineering & Remote Sensing, 69(6), 695-704.'
+};
@@ -0,0 +1,23 @@
+import { Waves } from 'lucide-react';
+import { GOOD, MEDIUM, POOR } from './qualityClasses';
+import type { ContinuousIndicator } from './types';
+
+export const turbidity: ContinuousIndicator = {
+  id: 'turbidity',
+  type: 'continuous',
+  name: 'Turbidity',
+  icon: Waves,
+  layer: 'TURBIDITY',
+  unit: 'NTU',
+  colormap: [
+    { value: 0, color: '#023858' },
+    { value: 5, color: '#0570b0' },
+    { value: 15, color: '#74a9cf' },
+    { value: 25, color: '#f6e8c3' },
+    { value: 35, color: '#bf812d' },
+    { value: 50, color: '#543005' }
+  ],
+  classification: { direction: 'lower-is-better', classes: [GOOD, MEDIUM, POOR], breaks: [15, 35], range: [0, 50] },
+  description: 'Turbidity measures water clarity and how much light can penetrate through water. It\'s affected by suspended particles like clay, silt, organic matter, and microorganisms. High turbidity can harm aquatic life by reducing light penetration, increasing water temperature, and decreasing dissolved oxygen levels. It\'s also an important indicator for drinking water quality.',
+  quote: 'Reference: Kirk, J. T. O. (1994). "Light and photosynthesis in aquatic ecosystems." Cambridge University Press, 3rd Edition.'
+};
@@ -0,0 +1,60 @@
+import type { ComponentType } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { ColorStop } from '../legend';
+import type { ParameterScheme, QualityClass } from '../waterQuality';
+
+export interface LegendProps {
+  indicator: Indicator;
+  // Instance serving the layer, for legends requested from the server
+  wmsUrl: string;
+}
+
+interface BaseIndicator {
+  // Unique across the registry, also used as the React key
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  description: string;
+  quote: string;
+  unit?: string;
+  // Replaces the default legend of the indicator's type
+  Legend?: ComponentType<LegendProps>;
+}
+
+// True color basemap imagery, nothing to query
+export interface NaturalIndicator extends BaseIndicator {
+  type: 'natural';
+  layer?: undefined;
+}
+
+// Physical quantity rendered with a color ramp
+export interface ContinuousIndicator extends BaseIndicator {
+  type: 'continuous';
+  layer: string;
+  unit: string;
+  // Color ramp of the layer's evalscript, lowest value first; the legend prefers the ramp
+  // the server describes and falls back to this one
+  colormap: ColorStop[];
+  // Classes used by the default classification profile
+  classification?: ParameterScheme;
+}
+
+// Categories rendered as flat colors
+export interface DiscreteIndicator extends BaseIndicator {
+  type: 'discrete';
+  layer: string;
+  classes: QualityClass[];
+}
+
+// Layer published by the WMS instance without an entry in the registry
+export interface WMSIndicator extends BaseIndicator {
+  type: 'wms';
+  layer: string;
+  legendUrl?: string;
+}
+
+export type Indicator = NaturalIndicator | ContinuousIndicator | DiscreteIndicator | WMSIndicator;
+
+export type LayerIndicator = Exclude<Indicator, NaturalIndicator>;
+
+export const hasLayer = (indicator: Indicator): indicator is LayerIndicator => indicator.type !== 'natural';
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseDelimited, readSamples } from './insitu';
+
+describe('parseDelimited', () => {
+  it('detects semicolons and keeps quoted delimiters, quotes and line breaks', () => {
+    const rows = parseDelimited('﻿station;note\r\n"Pier; north";"said ""hi""\nthen left"\r\n');
+    expect(rows).toEqual([
+      ['station', 'note'],
+      ['Pier; north', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('detects tabs and drops blank lines', () => {
+    expect(parseDelimited('a\tb\n\n1\t2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('readSamples', () => {
+  const header = ['Estación', 'Latitud', 'Longitud', 'Fecha', 'Clorofila-a (µg/L)', 'Turbidez (NTU)'];
+
+  it('reads decimal commas, accented headers and units in brackets', () => {
+    const { samples, parameters, issues } = readSamples(parseDelimited(
+      'Estación;Latitud;Longitud;Fecha;Clorofila-a (µg/L);Turbidez (NTU)\nE1;-12,05;-77,1;05/03/2024 10:30;3,2;1,5\n'
+    ));
+    expect(issues).toEqual([]);
+    expect(parameters).toEqual(['CHLA', 'TURBIDITY']);
+    expect(samples).toEqual([{
+      id: '2',
+      station: 'E1',
+      lat: -12.05,
+      lng: -77.1,
+      date: '2024-03-05',
+      time: '10:30',
+      values: { 'CHLA': 3.2, 'TURBIDITY': 1.5 },
+    }]);
+  });
+
+  it('keeps quoted decimal commas in comma separated files', () => {
+    const { samples } = readSamples(parseDelimited('lat,lon,date,chla\n1.5,2.5,2024-03-05,"4,25"\n'));
+    expect(samples[0].values).toEqual({ 'CHLA': 4.25 });
+  });
+
+  it('leaves out values below the detection limit', () => {
+    const { samples, issues } = readSamples([
+      header,
+      ['E1', '1', '2', '2024-03-05', '<0.5', '3'],
+      ['E2', '1', '2', '2024-03-05', '<0.5', '< 1'],
+    ]);
+    expect(samples).toHaveLength(1);
+    expect(samples[0].values).toEqual({ 'TURBIDITY': 3 });
+    expect(issues).toEqual([{ row: 3, message: 'No measured values' }]);
+  });
+
+  it('reads Excel serial dates from spreadsheets, with the time as a fraction of a day', () => {
+    const { samples } = readSamples([
+      ['station', 'lat', 'lon', 'date', 'time', 'chla'],
+      ['E1', '1', '2', '45356', '0.4375', '3'],
+      ['E2', '1', '2', '45356.75', '', '3'],
+    ], true);
+    expect(samples.map(({ date, time }) => [date, time])).toEqual([
+      ['2024-03-05', '10:30'],
+      ['2024-03-05', '18:00'],
+    ]);
+  });
+
+  it('does not read bare numbers as dates outside spreadsheets', () => {
+    const { samples, issues } = readSamples([['lat', 'lon', 'date', 'chla'], ['1', '2', '45356', '3']]);
+    expect(samples).toEqual([]);
+    expect(issues).toEqual([{ row: 2, message: 'Unrecognized date "45356"' }]);
+  });
+
+  it('reports rows with invalid coordinates or dates', () => {
+    const { issues } = readSamples([
+      header,
+      ['E1', 'x', '2', '2024-03-05', '1', ''],
+      ['E2', '95', '2', '2024-03-05', '1', ''],
+      ['E3', '1', '2', 'soon', '1', ''],
+    ]);
+    expect(issues).toEqual([
+      { row: 2, message: 'Invalid coordinates' },
+      { row: 3, message: 'Invalid coordinates' },
+      { row: 4, message: 'Unrecognized date "soon"' },
+    ]);
+  });
+
+  it('names stations by their coordinates when the file has no station column', () => {
+    const { samples } = readSamples([['lat', 'lon', 'date', 'tss'], ['-12.04567', '-77.1', '2024-03-05', '10']]);
+    expect(samples[0].station).toBe('-12.0457, -77.1000');
+  });
+
+  it('rejects files without the required columns', () => {
+    expect(() => readSamples([['lat', 'date', 'chla']])).toThrow('Missing longitude column');
+    expect(() => readSamples([['lat', 'lon', 'date', 'ph']])).toThrow(/No chlorophyll-a/);
+  });
+});
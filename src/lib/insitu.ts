@@ -0,0 +1,374 @@
+import { latLng } from 'leaflet';
+import { addDays, format, isValid, parse, parseISO } from 'date-fns';
+import { strFromU8, unzipSync } from 'fflate';
+import { fetchAcquisitionDates } from './acquisitions';
+import { mapWithConcurrency } from './concurrency';
+import { escapeCSV } from './timeSeries';
+import { getPointValue, PointQuery } from './featureInfo';
+import { getExtension, parseXML } from './featureImport';
+import { AcquisitionMatch, nearestAcquisition, ValidationMatch } from './validation';
+
+export const SAMPLE_IMPORT_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+export const isSampleFile = (fileName: string) => ['csv', 'tsv', 'txt', 'xlsx'].includes(getExtension(fileName));
+
+export interface InSituSample {
+  // File and row of the sample
+  id: string;
+  station: string;
+  lat: number;
+  lng: number;
+  // Sampling date, yyyy-MM-dd, and the time when the file gives one
+  date: string;
+  time?: string;
+  // Measured values keyed by WMS layer
+  values: Record<string, number>;
+}
+
+export interface SampleImportIssue {
+  // 1-based row in the file, 0 for the file itself
+  row: number;
+  message: string;
+}
+
+export interface SampleImportResult {
+  fileName: string;
+  samples: InSituSample[];
+  // Layers with at least one measured value
+  parameters: string[];
+  issues: SampleImportIssue[];
+}
+
+export interface SampleMatch {
+  sample: InSituSample;
+  acquisition: AcquisitionMatch | null;
+  estimated: number | null;
+  reason?: string;
+}
+
+// Lowercase, without accents, units in brackets or punctuation: "Clorofila-a (µg/L)" -> "clorofila_a"
+const normalizeHeader = (header: string) =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[([].*?[)\]]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const COLUMN_ALIASES = {
+  lat: ['lat', 'latitude', 'latitud', 'y'],
+  lng: ['lon', 'lng', 'long', 'longitude', 'longitud', 'x'],
+  date: ['datetime', 'date_time', 'date', 'fecha', 'fecha_hora', 'timestamp', 'sampled_at', 'sampling_date'],
+  time: ['time', 'hora'],
+  station: ['station', 'station_id', 'station_name', 'site', 'site_id', 'estacion', 'punto', 'name'],
+};
+
+// Header names lab sheets use for each water quality parameter, keyed by WMS layer
+const PARAMETER_ALIASES: Record<string, string[]> = {
+  'CHLA': ['chla', 'chl_a', 'chl', 'chlorophyll', 'chlorophyll_a', 'clorofila', 'clorofila_a'],
+  'DISSOLVED-OXYGEN': ['do', 'dissolved_oxygen', 'oxygen', 'od', 'oxigeno', 'oxigeno_disuelto'],
+  'TOTAL-SUSPENDED-SOLIDS': ['tss', 'total_suspended_solids', 'suspended_solids', 'sst', 'solidos_suspendidos', 'solidos_suspendidos_totales'],
+  'TURBIDITY': ['turbidity', 'turbidez', 'ntu'],
+};
+
+const DATE_FORMATS = [
+  'dd/MM/yyyy HH:mm:ss',
+  'dd/MM/yyyy HH:mm',
+  'dd/MM/yyyy',
+  'dd-MM-yyyy HH:mm',
+  'dd-MM-yyyy',
+  'yyyy/MM/dd HH:mm',
+  'yyyy/MM/dd',
+  'dd.MM.yyyy',
+];
+
+// Excel counts days from 1899-12-30
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const parseDateTime = (value: string, fromSpreadsheet: boolean): Date | null => {
+  const text = value.trim();
+  if (!text) return null;
+  if (fromSpreadsheet && /^\d+(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    // Read the serial as local time so the calendar day matches what the sheet shows
+    const utc = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86400000));
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes());
+  }
+  const iso = parseISO(text.replace(' ', 'T'));
+  if (isValid(iso)) return iso;
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+};
+
+// Accepts a decimal comma; values like "<0.5" below the detection limit are left out
+const parseNumber = (value: string): number | null => {
+  const text = value.trim().replace(/^(-?\d+),(\d+)$/, '$1.$2');
+  if (text === '' || !/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+  return Number(text);
+};
+
+const detectDelimiter = (line: string) => {
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: line.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+// RFC 4180 rows: quoted fields may hold delimiters, doubled quotes and line breaks
+export const parseDelimited = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const columnIndex = (reference: string) =>
+  reference.replace(/\d+/g, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const textOf = (element: Element) =>
+  Array.from(element.getElementsByTagNameNS('*', 't')).map((node) => node.textContent ?? '').join('');
+
+// First worksheet of an XLSX workbook as rows of cell text; dates stay as Excel serial numbers
+export const parseXLSX = (buffer: ArrayBuffer): string[][] => {
+  const entries = unzipSync(new Uint8Array(buffer));
+  const read = (path: string) => (entries[path] ? parseXML(strFromU8(entries[path])) : null);
+
+  const sharedStrings = Array.from(read('xl/sharedStrings.xml')?.getElementsByTagNameNS('*', 'si') ?? []).map(textOf);
+
+  // The workbook lists its sheets in tab order; relationships map them to files
+  const firstSheet = read('xl/workbook.xml')?.getElementsByTagNameNS('*', 'sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  const relation = Array.from(read('xl/_rels/workbook.xml.rels')?.getElementsByTagNameNS('*', 'Relationship') ?? [])
+    .find((element) => element.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target')?.replace(/^\/?(xl\/)?/, 'xl/');
+  const sheetPath = target && entries[target]
+    ? target
+    : Object.keys(entries).filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name)).sort()[0];
+  const sheet = sheetPath ? read(sheetPath) : null;
+  if (!sheet) {
+    throw new Error('Workbook does not contain a worksheet');
+  }
+
+  return Array.from(sheet.getElementsByTagNameNS('*', 'row'))
+    .map((rowElement) => {
+      const row: string[] = [];
+      Array.from(rowElement.getElementsByTagNameNS('*', 'c')).forEach((cell, position) => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const value = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? '';
+        switch (cell.getAttribute('t')) {
+          case 's':
+            row[index] = sharedStrings[Number(value)] ?? '';
+            break;
+          case 'inlineStr':
+            row[index] = textOf(cell);
+            break;
+          default:
+            row[index] = value;
+        }
+      });
+      return Array.from(row, (cell) => cell ?? '');
+    })
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const findColumn = (headers: string[], aliases: string[]) => {
+  for (const alias of aliases) {
+    const index = headers.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+// Samples from a table whose first row holds the headers
+export const readSamples = (rows: string[][], fromSpreadsheet = false): Omit<SampleImportResult, 'fileName'> => {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(normalizeHeader);
+
+  const latColumn = findColumn(headers, COLUMN_ALIASES.lat);
+  const lngColumn = findColumn(headers, COLUMN_ALIASES.lng);
+  const timeColumn = findColumn(headers, COLUMN_ALIASES.time);
+  // A lone "time" column holds the full timestamp
+  const dateColumn = findColumn(headers, COLUMN_ALIASES.date) === -1 ? timeColumn : findColumn(headers, COLUMN_ALIASES.date);
+  const stationColumn = findColumn(headers, COLUMN_ALIASES.station);
+  const parameterColumns = Object.entries(PARAMETER_ALIASES)
+    .map(([layer, aliases]) => ({ layer, index: findColumn(headers, aliases) }))
+    .filter(({ index }) => index !== -1);
+
+  const missing = [
+    latColumn === -1 && 'latitude',
+    lngColumn === -1 && 'longitude',
+    dateColumn === -1 && 'date',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.join(', ')} column`);
+  }
+  if (parameterColumns.length === 0) {
+    throw new Error('No chlorophyll-a, dissolved oxygen, TSS or turbidity column found');
+  }
+
+  const samples: InSituSample[] = [];
+  const issues: SampleImportIssue[] = [];
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (column: number) => (column === -1 ? '' : cells[column] ?? '');
+    const lat = parseNumber(cell(latColumn));
+    const lng = parseNumber(cell(lngColumn));
+    if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      issues.push({ row, message: 'Invalid coordinates' });
+      return;
+    }
+
+    const separateTime = timeColumn !== dateColumn ? cell(timeColumn).trim() : '';
+    // Spreadsheets keep a time of day as a fraction of a day
+    const timeFraction = fromSpreadsheet ? parseNumber(separateTime) : null;
+    const dateText = separateTime && timeFraction === null ? `${cell(dateColumn)} ${separateTime}` : cell(dateColumn);
+    let sampled = parseDateTime(dateText, fromSpreadsheet);
+    if (sampled && timeFraction !== null && timeFraction < 1) {
+      sampled = new Date(sampled.getTime() + Math.round(timeFraction * 86400000));
+    }
+    if (!sampled) {
+      issues.push({ row, message: `Unrecognized date "${dateText}"` });
+      return;
+    }
+
+    const values: Record<string, number> = {};
+    for (const { layer, index: column } of parameterColumns) {
+      const value = parseNumber(cell(column));
+      if (value !== null) values[layer] = value;
+    }
+    if (Object.keys(values).length === 0) {
+      issues.push({ row, message: 'No measured values' });
+      return;
+    }
+
+    const hasTime = sampled.getHours() !== 0 || sampled.getMinutes() !== 0;
+    samples.push({
+      id: String(row),
+      station: cell(stationColumn).trim() || `${lat.toFixed(4)}, ${lng.toFixed(4)}`,
+      lat,
+      lng,
+      date: format(sampled, 'yyyy-MM-dd'),
+      time: hasTime ? format(sampled, 'HH:mm') : undefined,
+      values,
+    });
+  });
+
+  const parameters = parameterColumns
+    .map(({ layer }) => layer)
+    .filter((layer) => samples.some((sample) => layer in sample.values));
+  return { samples, parameters, issues };
+};
+
+export const importSampleFile = async (file: File): Promise<SampleImportResult> => {
+  const rows = getExtension(file.name) === 'xlsx'
+    ? parseXLSX(await file.arrayBuffer())
+    : parseDelimited(await file.text());
+  const { samples, ...result } = readSamples(rows, getExtension(file.name) === 'xlsx');
+  return { fileName: file.name, samples: samples.map((sample) => ({ ...sample, id: `${file.name}:${sample.id}` })), ...result };
+};
+
+// Estimate of one parameter at every sample that measured it, taken from the acquisition
+// nearest in time within maxDays; samples without one are kept with the reason
+export const fetchSampleMatches = async (
+  query: PointQuery & { typename?: string },
+  samples: InSituSample[],
+  maxDays: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<SampleMatch[]> => {
+  const measured = samples.filter((sample) => query.layer in sample.values);
+
+  return mapWithConcurrency(measured, async (sample): Promise<SampleMatch> => {
+    const latlng = latLng(sample.lat, sample.lng);
+    try {
+      const sampled = parseISO(sample.date);
+      const time = `${format(addDays(sampled, -maxDays), 'yyyy-MM-dd')}/${format(addDays(sampled, maxDays), 'yyyy-MM-dd')}`;
+      const { dates } = await fetchAcquisitionDates(query.url, {
+        bounds: latlng.toBounds(20),
+        time,
+        typename: query.typename,
+        signal: query.signal,
+      });
+      const acquisition = nearestAcquisition(sample.date, dates, maxDays);
+      if (!acquisition) {
+        return { sample, acquisition: null, estimated: null, reason: `No acquisition within ${maxDays} days` };
+      }
+
+      const result = await getPointValue({ ...query, time: acquisition.date }, latlng);
+      return result.value === null
+        ? { sample, acquisition, estimated: null, reason: result.reason }
+        : { sample, acquisition, estimated: result.value };
+    } catch (error) {
+      if (query.signal?.aborted) throw error;
+      return { sample, acquisition: null, estimated: null, reason: error instanceof Error ? error.message : 'Request failed' };
+    }
+  }, { concurrency: 4, onProgress });
+};
+
+// Pairs of measured and estimated values for the statistics, leaving out unmatched samples
+export const toValidationMatches = (matches: SampleMatch[], layer: string): ValidationMatch[] =>
+  matches.flatMap(({ sample, acquisition, estimated }) =>
+    acquisition && estimated !== null
+      ? [{
+        station: sample.station,
+        sampleDate: sample.date,
+        acquisitionDate: acquisition.date,
+        offsetDays: acquisition.offsetDays,
+        observed: sample.values[layer],
+        estimated,
+      }]
+      : []
+  );
+
+export const matchesToCSV = (matches: SampleMatch[], layer: string, columnName: string): string => {
+  const rows = matches.map(({ sample, acquisition, estimated, reason }) => [
+    escapeCSV(sample.station),
+    sample.lat,
+    sample.lng,
+    sample.time ? `${sample.date} ${sample.time}` : sample.date,
+    acquisition?.date ?? '',
+    acquisition?.offsetDays ?? '',
+    sample.values[layer],
+    estimated ?? '',
+    escapeCSV(reason ?? ''),
+  ].join(','));
+  const header = `station,lat,lng,sampled,acquisition,offset_days,${escapeCSV(`observed ${columnName}`)},${escapeCSV(`estimated ${columnName}`)},note`;
+  return [header, ...rows].join('\n');
+};
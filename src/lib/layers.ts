@@ -0,0 +1,66 @@
+export type BasemapId = 'satellite' | 'streets' | 'terrain' | 'none';
+
+export interface Basemap {
+  id: BasemapId;
+  name: string;
+  // XYZ template; absent for a blank background
+  url?: string;
+  attribution?: string;
+  maxZoom?: number;
+}
+
+export interface OverlayLayer {
+  // WMS layer name
+  layer: string;
+  // 0-1
+  opacity: number;
+  visible: boolean;
+}
+
+export const BASEMAPS: Basemap[] = [
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community',
+  },
+  {
+    id: 'streets',
+    name: 'Streets',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19,
+  },
+  {
+    id: 'terrain',
+    name: 'Terrain',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Topo_Map/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Esri, DeLorme, NAVTEQ, TomTom, Intermap, iPC, USGS, FAO, NPS, NRCAN, GeoBase, Kadaster NL, Ordnance Survey, Esri Japan, METI, Esri China (Hong Kong), and the GIS User Community',
+  },
+  { id: 'none', name: 'None' },
+];
+
+export const DEFAULT_BASEMAP = BASEMAPS[0];
+
+export const findBasemap = (id?: string) => BASEMAPS.find((basemap) => basemap.id === id);
+
+export const createOverlay = (layer: string): OverlayLayer => ({ layer, opacity: 1, visible: true });
+
+// The indicator selected in the sidebar is always stacked: it takes the place of the
+// previously selected one, or goes on top when that one isn't stacked
+export const syncActiveOverlay = (overlays: OverlayLayer[], active: string, previous: string): OverlayLayer[] => {
+  if (!active) return overlays.filter((overlay) => overlay.layer !== previous);
+  if (overlays.some((overlay) => overlay.layer === active)) return overlays;
+  const index = overlays.findIndex((overlay) => overlay.layer === previous);
+  if (index === -1) return [...overlays, createOverlay(active)];
+  return overlays.map((overlay, i) => (i === index ? { ...overlay, layer: active } : overlay));
+};
+
+// Move an overlay up (positive offset) or down the stack, which runs bottom to top
+export const moveOverlay = (overlays: OverlayLayer[], index: number, offset: number): OverlayLayer[] => {
+  const target = index + offset;
+  if (target < 0 || target >= overlays.length) return overlays;
+  const next = [...overlays];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
@@ -0,0 +1,90 @@
+export interface ColorStop {
+  value: number;
+  color: string;
+}
+
+const parseHex = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex.slice(0, 6);
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+// Color of a value on the ramp, clamped to the end stops
+export const interpolateColor = (stops: ColorStop[], value: number) => {
+  if (value <= stops[0].value) return stops[0].color;
+  const upper = stops.findIndex((stop) => stop.value >= value);
+  if (upper === -1) return stops[stops.length - 1].color;
+  const [a, b] = [stops[upper - 1], stops[upper]];
+  const t = (value - a.value) / (b.value - a.value);
+  const [from, to] = [parseHex(a.color), parseHex(b.color)];
+  return toHex(from.map((c, i) => c + (to[i] - c) * t));
+};
+
+// Value at a position along the ramp, 0 at the first stop and 1 at the last
+export const valueAtPosition = (stops: ColorStop[], position: number) => {
+  const min = stops[0].value;
+  const max = stops[stops.length - 1].value;
+  return min + (max - min) * Math.min(1, Math.max(0, position));
+};
+
+export const positionOfValue = (stops: ColorStop[], value: number) => {
+  const min = stops[0].value;
+  const max = stops[stops.length - 1].value;
+  return max === min ? 0 : (value - min) / (max - min);
+};
+
+// Round tick values (1, 2, 2.5 or 5 times a power of ten) covering [min, max]
+export const niceTicks = (min: number, max: number, count = 5) => {
+  if (max <= min) return [min];
+  const rough = (max - min) / Math.max(1, count - 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough)!;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    // Avoid float noise like 0.30000000000000004
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+};
+
+export const getLegendGraphicUrl = (wmsUrl: string, layer: string, format = 'image/png', style?: string) => {
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    REQUEST: 'GetLegendGraphic',
+    VERSION: '1.3.0',
+    LAYER: layer,
+    FORMAT: format,
+    SLD_VERSION: '1.1.0',
+  });
+  if (style) params.set('STYLE', style);
+  return `${wmsUrl}?${params}`;
+};
+
+interface LegendJSON {
+  Legend?: {
+    rules?: {
+      symbolizers?: {
+        Raster?: { colormap?: { entries?: { color?: string; quantity?: string | number }[] } };
+      }[];
+    }[];
+  }[];
+}
+
+// Color ramp of a layer from a JSON GetLegendGraphic response, null when the server
+// doesn't describe one (only an image legend is available then)
+export const fetchLegendColormap = async (wmsUrl: string, layer: string, signal?: AbortSignal): Promise<ColorStop[] | null> => {
+  const response = await fetch(getLegendGraphicUrl(wmsUrl, layer, 'application/json'), { signal });
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) return null;
+
+  const legend = (await response.json()) as LegendJSON;
+  const stops = (legend.Legend ?? [])
+    .flatMap((entry) => entry.rules ?? [])
+    .flatMap((rule) => rule.symbolizers ?? [])
+    .flatMap((symbolizer) => symbolizer.Raster?.colormap?.entries ?? [])
+    .map((entry) => ({ value: Number(entry.quantity), color: entry.color ?? '' }))
+    .filter((stop) => Number.isFinite(stop.value) && /^#[0-9a-f]{3,8}$/i.test(stop.color))
+    .sort((a, b) => a.value - b.value);
+  return stops.length >= 2 ? stops : null;
+};
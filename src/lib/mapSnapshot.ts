@@ -0,0 +1,109 @@
+import type L from 'leaflet';
+
+const TILE_SIZE = 256;
+
+export interface SnapshotOverlay {
+  url: string;
+  layer: string;
+  time?: string;
+  opacity?: number;
+}
+
+export interface SnapshotOptions {
+  basemapUrl?: string;
+  overlays?: SnapshotOverlay[];
+  // Output pixels per screen pixel; overlays are requested at the full resolution
+  scale?: number;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    // Tiles must be CORS-enabled or the canvas becomes unreadable
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${src}`));
+    image.src = src;
+  });
+
+const tileUrl = (template: string, x: number, y: number, z: number) =>
+  template
+    .replace('{s}', 'a')
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+
+// Draw the XYZ basemap tiles covering the current view; missing tiles are left blank
+export const drawBasemap = async (ctx: CanvasRenderingContext2D, map: L.Map, template: string) => {
+  const zoom = Math.round(map.getZoom());
+  const scale = map.getZoomScale(map.getZoom(), zoom);
+  const bounds = map.getPixelBounds();
+  const min = bounds.min!.divideBy(scale);
+  const max = bounds.max!.divideBy(scale);
+  const tiles = 2 ** zoom;
+  const jobs: Promise<void>[] = [];
+
+  for (let x = Math.floor(min.x / TILE_SIZE); x <= Math.floor(max.x / TILE_SIZE); x++) {
+    for (let y = Math.floor(min.y / TILE_SIZE); y <= Math.floor(max.y / TILE_SIZE); y++) {
+      if (y < 0 || y >= tiles) continue;
+      const wrappedX = ((x % tiles) + tiles) % tiles;
+      const left = (x * TILE_SIZE - min.x) * scale;
+      const top = (y * TILE_SIZE - min.y) * scale;
+      jobs.push(
+        loadImage(tileUrl(template, wrappedX, y, zoom))
+          .then((image) => ctx.drawImage(image, left, top, TILE_SIZE * scale, TILE_SIZE * scale))
+          .catch(() => undefined)
+      );
+    }
+  }
+  await Promise.all(jobs);
+};
+
+// GetMap URL for the current view in Web Mercator so it lines up with the basemap
+export const getMapUrl = (map: L.Map, overlay: SnapshotOverlay, width: number, height: number) => {
+  const bounds = map.getBounds();
+  const sw = map.options.crs!.project(bounds.getSouthWest());
+  const ne = map.options.crs!.project(bounds.getNorthEast());
+  const params = new URLSearchParams({
+    SERVICE: 'WMS',
+    REQUEST: 'GetMap',
+    VERSION: '1.3.0',
+    LAYERS: overlay.layer,
+    STYLES: '',
+    FORMAT: 'image/png',
+    TRANSPARENT: 'true',
+    CRS: 'EPSG:3857',
+    BBOX: `${sw.x},${sw.y},${ne.x},${ne.y}`,
+    WIDTH: String(Math.round(width)),
+    HEIGHT: String(Math.round(height)),
+  });
+  if (overlay.time) params.set('TIME', overlay.time);
+  return `${overlay.url}?${params}`;
+};
+
+// Render the current view (basemap and WMS overlays) into a canvas
+export const renderMapSnapshot = async (map: L.Map, { basemapUrl, overlays = [], scale = 1 }: SnapshotOptions) => {
+  const size = map.getSize();
+  const canvas = document.createElement('canvas');
+  canvas.width = size.x * scale;
+  canvas.height = size.y * scale;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, size.x, size.y);
+
+  if (basemapUrl) {
+    await drawBasemap(ctx, map, basemapUrl);
+  }
+
+  const images = await Promise.all(overlays.map((overlay) => loadImage(getMapUrl(map, overlay, canvas.width, canvas.height))));
+  images.forEach((image, index) => {
+    ctx.globalAlpha = overlays[index].opacity ?? 1;
+    ctx.drawImage(image, 0, 0, size.x, size.y);
+  });
+  ctx.globalAlpha = 1;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  return canvas;
+};
@@ -0,0 +1,156 @@
+import type { Feature, Polygon, Position } from 'geojson';
+import { area, circle, distance, length, lineString, polygon } from '@turf/turf';
+
+export type LengthUnit = 'm' | 'km';
+export type AreaUnit = 'm2' | 'ha' | 'km2';
+export type CoordinateFormat = 'dd' | 'dms' | 'utm';
+
+export interface LatLngLike {
+  lat: number;
+  lng: number;
+}
+
+// Lengths in meters and areas in square meters, measured along the Earth's surface
+export type Measurement =
+  | { kind: 'length'; length: number }
+  | { kind: 'area'; area: number; perimeter: number }
+  | { kind: 'circle'; radius: number; area: number };
+
+export const LENGTH_UNITS: { value: LengthUnit; label: string }[] = [
+  { value: 'm', label: 'm' },
+  { value: 'km', label: 'km' },
+];
+
+export const AREA_UNITS: { value: AreaUnit; label: string }[] = [
+  { value: 'm2', label: 'm²' },
+  { value: 'ha', label: 'ha' },
+  { value: 'km2', label: 'km²' },
+];
+
+const toPosition = ({ lat, lng }: LatLngLike): Position => [lng, lat];
+
+const pathLength = (points: LatLngLike[]) =>
+  points.length < 2 ? 0 : length(lineString(points.map(toPosition)), { units: 'meters' });
+
+export const measurePath = (points: LatLngLike[]): Measurement => ({ kind: 'length', length: pathLength(points) });
+
+export const measurePolygon = (points: LatLngLike[]): Measurement => {
+  if (points.length < 3) return { kind: 'area', area: 0, perimeter: pathLength(points) };
+  const ring = [...points, points[0]];
+  return { kind: 'area', area: area(polygon([ring.map(toPosition)])), perimeter: pathLength(ring) };
+};
+
+// Polygon approximating a circle, which is how drawn circles are kept
+export const circlePolygon = (center: LatLngLike, radius: number, steps = 64): Feature<Polygon> =>
+  circle(toPosition(center), radius, { units: 'meters', steps });
+
+export const measureCircle = (center: LatLngLike, edge: LatLngLike): Measurement => {
+  const radius = distance(toPosition(center), toPosition(edge), { units: 'meters' });
+  return { kind: 'circle', radius, area: radius > 0 ? area(circlePolygon(center, radius)) : 0 };
+};
+
+const formatNumber = (value: number, digits: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+export const formatLength = (meters: number, unit: LengthUnit) =>
+  unit === 'km' ? `${formatNumber(meters / 1000, 3)} km` : `${formatNumber(meters, meters < 100 ? 1 : 0)} m`;
+
+export const formatArea = (squareMeters: number, unit: AreaUnit) => {
+  switch (unit) {
+    case 'ha':
+      return `${formatNumber(squareMeters / 10000, 2)} ha`;
+    case 'km2':
+      return `${formatNumber(squareMeters / 1e6, 3)} km²`;
+    default:
+      return `${formatNumber(squareMeters, 0)} m²`;
+  }
+};
+
+const toDMS = (value: number, positive: string, negative: string) => {
+  const absolute = Math.abs(value);
+  let degrees = Math.floor(absolute);
+  let minutes = Math.floor((absolute - degrees) * 60);
+  let seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 10) / 10;
+  // Rounding can carry a full 60 seconds or minutes up
+  if (seconds >= 60) {
+    seconds = 0;
+    minutes++;
+  }
+  if (minutes >= 60) {
+    minutes = 0;
+    degrees++;
+  }
+  return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${value < 0 ? negative : positive}`;
+};
+
+export interface UTMCoordinate {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+}
+
+// WGS84 ellipsoid and the UTM scale factor on the central meridian
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const SCALE_FACTOR = 0.9996;
+const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+// Transverse Mercator series from Snyder's Map Projections; UTM stops at 84°N and 80°S
+export const toUTM = ({ lat, lng }: LatLngLike): UTMCoordinate | null => {
+  if (lat < -80 || lat > 84) return null;
+  const normalizedLng = ((((lng + 180) % 360) + 360) % 360) - 180;
+  const zone = Math.min(60, Math.floor((normalizedLng + 180) / 6) + 1);
+  const centralMeridian = ((zone - 1) * 6 - 180 + 3) * (Math.PI / 180);
+
+  const e2 = FLATTENING * (2 - FLATTENING);
+  const ep2 = e2 / (1 - e2);
+  const phi = lat * (Math.PI / 180);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = ep2 * cosPhi * cosPhi;
+  const a = cosPhi * (normalizedLng * (Math.PI / 180) - centralMeridian);
+  const m = SEMI_MAJOR_AXIS * (
+    (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256) * phi
+    - ((3 * e2) / 8 + (3 * e2 ** 2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * phi)
+    + ((15 * e2 ** 2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi)
+    - ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi)
+  );
+
+  const easting = 500000 + SCALE_FACTOR * n * (
+    a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120
+  );
+  const northing = SCALE_FACTOR * (
+    m + n * tanPhi * (
+      (a * a) / 2
+      + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24
+      + ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720
+    )
+  );
+
+  return {
+    zone,
+    band: LATITUDE_BANDS[Math.min(LATITUDE_BANDS.length - 1, Math.floor((lat + 80) / 8))],
+    easting,
+    northing: lat < 0 ? northing + 10000000 : northing,
+  };
+};
+
+export const formatCoordinates = (point: LatLngLike, format: CoordinateFormat) => {
+  switch (format) {
+    case 'dms':
+      return `${toDMS(point.lat, 'N', 'S')} ${toDMS(point.lng, 'E', 'W')}`;
+    case 'utm': {
+      const utm = toUTM(point);
+      return utm
+        ? `${utm.zone}${utm.band} ${Math.round(utm.easting)} E ${Math.round(utm.northing)} N`
+        : 'Outside UTM coverage';
+    }
+    default:
+      return `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
+  }
+};
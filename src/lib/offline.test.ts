@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { allowsOfflineUse, countPackTiles } from './offline';
+
+const OSM = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const ESRI = 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}';
+
+describe('allowsOfflineUse', () => {
+  it('rejects the OpenStreetMap tile servers', () => {
+    expect(allowsOfflineUse(OSM)).toBe(false);
+    expect(allowsOfflineUse('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png')).toBe(false);
+  });
+
+  it('accepts other tile servers', () => {
+    expect(allowsOfflineUse(ESRI)).toBe(true);
+    expect(allowsOfflineUse('https://tiles.example.com/openstreetmap.org/{z}/{x}/{y}.png')).toBe(true);
+  });
+});
+
+describe('countPackTiles', () => {
+  // One tile at zoom 0 and four at zoom 1
+  const request = { bounds: [-180, -85, 180, 85] as [number, number, number, number], minZoom: 0, maxZoom: 1 };
+
+  it('counts basemap tiles and layer tiles for every time', () => {
+    expect(countPackTiles({ ...request, basemapUrl: ESRI, layer: 'CHLA', times: ['', '2024-03-05'] })).toBe(15);
+  });
+
+  it('leaves out basemaps that may not be used offline', () => {
+    expect(countPackTiles({ ...request, basemapUrl: OSM, layer: 'CHLA', times: [''] })).toBe(5);
+    expect(countPackTiles({ ...request, basemapUrl: OSM, times: [] })).toBe(0);
+  });
+});
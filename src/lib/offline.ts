@@ -0,0 +1,205 @@
+import { mapWithConcurrency } from './concurrency';
+
+// Must match public/sw.js
+const PACK_CACHE_PREFIX = 'orber-pack-';
+const RUNTIME_CACHE = 'orber-tiles-runtime';
+const PACK_HEADER = 'X-Orber-Pack';
+const STORAGE_KEY = 'orber.offlinePacks';
+
+// Half the Web Mercator world width in meters
+const MERCATOR_EXTENT = 20037508.342789244;
+const TILE_SIZE = 256;
+export const MAX_PACK_TILES = 5000;
+// Tile servers whose usage policy forbids bulk downloading tiles for offline use
+const NO_OFFLINE_HOSTS = ['tile.openstreetmap.org'];
+
+export type TileSource = 'network' | 'cache' | 'missing';
+
+export interface OfflinePack {
+  id: string;
+  name: string;
+  // [west, south, east, north] in degrees
+  bounds: [number, number, number, number];
+  minZoom: number;
+  maxZoom: number;
+  layer?: string;
+  // WMS TIME values downloaded for the layer, '' for the latest imagery
+  times: string[];
+  tiles: number;
+  failed: number;
+  bytes: number;
+  createdAt: string;
+}
+
+export interface PackRequest {
+  name: string;
+  bounds: [number, number, number, number];
+  minZoom: number;
+  maxZoom: number;
+  // Left out when the map has no basemap
+  basemapUrl?: string;
+  wmsUrl: string;
+  layer?: string;
+  times: string[];
+}
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Error registering the service worker:', error);
+    });
+  });
+};
+
+// Downloads go through the service worker, which only sees requests once it controls the page
+export const isOfflineReady = () => Boolean(navigator.serviceWorker?.controller);
+
+// Reports where each map tile came from, as seen by the service worker
+export const subscribeToTileSource = (listener: (source: TileSource) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'orber-tile') listener(event.data.source);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
+
+const lngToTileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const rad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+// XYZ tiles covering the bounds at each zoom level
+export const tilesForBounds = ([west, south, east, north]: [number, number, number, number], minZoom: number, maxZoom: number) => {
+  const tiles: { x: number; y: number; z: number }[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const max = 2 ** z - 1;
+    const [x0, x1] = [lngToTileX(west, z), Math.min(max, lngToTileX(east, z))];
+    const [y0, y1] = [latToTileY(north, z), Math.min(max, latToTileY(south, z))];
+    for (let x = Math.max(0, x0); x <= x1; x++) {
+      for (let y = Math.max(0, y0); y <= y1; y++) tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+};
+
+export const allowsOfflineUse = (template: string) => {
+  const host = template.match(/^https?:\/\/([^/]+)/)?.[1] ?? '';
+  return !NO_OFFLINE_HOSTS.some((blocked) => host === blocked || host.endsWith(`.${blocked}`));
+};
+
+// Basemap tiles are only taken along from servers that allow it
+const packBasemapUrl = (request: Pick<PackRequest, 'basemapUrl'>) =>
+  request.basemapUrl && allowsOfflineUse(request.basemapUrl) ? request.basemapUrl : undefined;
+
+export const countPackTiles = (request: Pick<PackRequest, 'bounds' | 'minZoom' | 'maxZoom' | 'basemapUrl' | 'layer' | 'times'>) =>
+  tilesForBounds(request.bounds, request.minZoom, request.maxZoom).length
+  * ((packBasemapUrl(request) ? 1 : 0) + (request.layer ? request.times.length : 0));
+
+// GetMap URL of a tile, laid out like Leaflet's WMS tile layer requests it
+const wmsTileUrl = (wmsUrl: string, layer: string, time: string, { x, y, z }: { x: number; y: number; z: number }) => {
+  const size = (MERCATOR_EXTENT * 2) / 2 ** z;
+  const minX = -MERCATOR_EXTENT + x * size;
+  const maxY = MERCATOR_EXTENT - y * size;
+  const params = new URLSearchParams({
+    service: 'WMS',
+    request: 'GetMap',
+    version: '1.3.0',
+    layers: layer,
+    styles: '',
+    format: 'image/png',
+    transparent: 'true',
+    crs: 'EPSG:3857',
+    width: String(TILE_SIZE),
+    height: String(TILE_SIZE),
+    bbox: [minX, maxY - size, minX + size, maxY].join(','),
+  });
+  if (time) params.set('TIME', time);
+  return `${wmsUrl}?${params}`;
+};
+
+const basemapTileUrl = (template: string, { x, y, z }: { x: number; y: number; z: number }) =>
+  template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+export const loadPacks = (): OfflinePack[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error('Error reading offline packs:', error);
+    return [];
+  }
+};
+
+export const savePacks = (packs: OfflinePack[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+};
+
+export const downloadPack = async (
+  request: PackRequest,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<OfflinePack> => {
+  const id = crypto.randomUUID();
+  const tiles = tilesForBounds(request.bounds, request.minZoom, request.maxZoom);
+  const basemapUrl = packBasemapUrl(request);
+  const urls = [
+    ...(basemapUrl ? tiles.map((tile) => basemapTileUrl(basemapUrl, tile)) : []),
+    ...(request.layer ? request.times.flatMap((time) => tiles.map((tile) => wmsTileUrl(request.wmsUrl, request.layer!, time, tile))) : []),
+  ];
+
+  // Ask the browser not to evict the packs under storage pressure
+  await navigator.storage?.persist?.();
+
+  let failed = 0;
+  let bytes = 0;
+  try {
+    await mapWithConcurrency(urls, async (url) => {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      try {
+        const response = await fetch(url, { headers: { [PACK_HEADER]: id }, signal });
+        if (!response.ok) throw new Error(`Tile responded ${response.status}`);
+        bytes += (await response.blob()).size;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        failed++;
+      }
+    }, { concurrency: 4, onProgress });
+  } catch (error) {
+    await caches.delete(`${PACK_CACHE_PREFIX}${id}`);
+    throw error;
+  }
+
+  return {
+    id,
+    name: request.name,
+    bounds: request.bounds,
+    minZoom: request.minZoom,
+    maxZoom: request.maxZoom,
+    layer: request.layer,
+    times: request.times,
+    tiles: urls.length - failed,
+    failed,
+    bytes,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const deletePackTiles = (pack: OfflinePack) => caches.delete(`${PACK_CACHE_PREFIX}${pack.id}`);
+
+// Drop tiles kept from browsing, the packs stay
+export const clearRuntimeTiles = () => caches.delete(RUNTIME_CACHE);
+
+export const estimateStorage = async () => {
+  const estimate = await navigator.storage?.estimate?.();
+  return estimate ? { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 } : null;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
@@ -0,0 +1,330 @@
+import { jsPDF } from 'jspdf';
+import type L from 'leaflet';
+import type { Position } from 'geojson';
+import type { AreaFeature, AreaMeasurements, AreaStatistics } from './areaStats';
+import { downloadBlob } from './download';
+import type { Indicator } from './indicators';
+import { ColorStop, fetchLegendColormap, niceTicks, positionOfValue } from './legend';
+
+export type ReportFormat = 'pdf' | 'png';
+
+export interface ReportLegendEntry {
+  label: string;
+  color: string;
+  range?: string;
+}
+
+// How the layer is rendered on the map: a color ramp or flat class colors
+export type ReportLegend =
+  | { type: 'ramp'; stops: ColorStop[] }
+  | { type: 'classes'; entries: ReportLegendEntry[] };
+
+export interface ReportContent {
+  title: string;
+  indicatorName: string;
+  unit?: string;
+  subtitle: string;
+  description: string;
+  quote: string;
+  map: HTMLCanvasElement;
+  legend: ReportLegend | null;
+  // Quality classes of the active classification profile, apart from the rendering legend
+  classification?: ReportLegendEntry[];
+  measurements?: AreaMeasurements;
+  stats?: AreaStatistics;
+  classShares?: (ReportLegendEntry & { share: number })[];
+  chart?: HTMLImageElement;
+}
+
+// A4 at 150 dpi; the PNG export doubles it
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 80;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PNG_RESOLUTION = 2;
+const FONT = 'sans-serif';
+
+const createPage = (resolution: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH * resolution;
+  canvas.height = PAGE_HEIGHT * resolution;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(resolution, resolution);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  ctx.textBaseline = 'top';
+  return { canvas, ctx };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draw wrapped text and return the y below it
+const drawParagraph = (ctx: CanvasRenderingContext2D, text: string, y: number, font: string, color = '#111827', lineHeight = 1.4) => {
+  ctx.font = font;
+  ctx.fillStyle = color;
+  const size = parseInt(font.match(/(\d+)px/)?.[1] ?? '16', 10);
+  for (const line of wrapText(ctx, text, CONTENT_WIDTH)) {
+    ctx.fillText(line, MARGIN, y);
+    y += size * lineHeight;
+  }
+  return y;
+};
+
+const drawHeading = (ctx: CanvasRenderingContext2D, text: string, y: number) => {
+  ctx.font = `bold 26px ${FONT}`;
+  ctx.fillStyle = '#111827';
+  ctx.fillText(text, MARGIN, y);
+  ctx.fillStyle = '#d1d5db';
+  ctx.fillRect(MARGIN, y + 36, CONTENT_WIDTH, 2);
+  return y + 52;
+};
+
+const drawFooter = (ctx: CanvasRenderingContext2D, page: number, pages: number) => {
+  ctx.font = `14px ${FONT}`;
+  ctx.fillStyle = '#6b7280';
+  ctx.textAlign = 'right';
+  ctx.fillText(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2);
+  ctx.textAlign = 'left';
+};
+
+// Legend of the layer from the same sources as the map's legend: the ramp the server describes,
+// then the indicator's declared ramp or classes
+export const fetchReportLegend = async (indicator: Indicator, wmsUrl: string, signal?: AbortSignal): Promise<ReportLegend | null> => {
+  if (indicator.type === 'natural') return null;
+  if (indicator.type === 'discrete') return { type: 'classes', entries: indicator.classes };
+  const stops = await fetchLegendColormap(wmsUrl, indicator.layer, signal).catch((error) => {
+    if (signal?.aborted) throw error;
+    console.error('Error fetching legend colormap:', error);
+    return null;
+  });
+  if (stops) return { type: 'ramp', stops };
+  return indicator.type === 'continuous' ? { type: 'ramp', stops: indicator.colormap } : null;
+};
+
+const RAMP_HEIGHT = 24;
+
+const drawRamp = (ctx: CanvasRenderingContext2D, stops: ColorStop[], y: number, unit?: string) => {
+  const gradient = ctx.createLinearGradient(MARGIN, 0, MARGIN + CONTENT_WIDTH, 0);
+  for (const stop of stops) gradient.addColorStop(positionOfValue(stops, stop.value), stop.color);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(MARGIN, y, CONTENT_WIDTH, RAMP_HEIGHT);
+
+  ctx.font = `16px ${FONT}`;
+  ctx.fillStyle = '#374151';
+  ctx.textAlign = 'center';
+  const ticks = niceTicks(stops[0].value, stops[stops.length - 1].value);
+  ticks.forEach((tick, i) => {
+    const x = MARGIN + CONTENT_WIDTH * positionOfValue(stops, tick);
+    ctx.fillRect(x - 0.5, y + RAMP_HEIGHT, 1, 6);
+    const label = i === ticks.length - 1 && unit ? `${tick} ${unit}` : String(tick);
+    ctx.fillText(label, Math.min(Math.max(x, MARGIN + 20), MARGIN + CONTENT_WIDTH - 40), y + RAMP_HEIGHT + 10);
+  });
+  ctx.textAlign = 'left';
+  return y + RAMP_HEIGHT + 44;
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, entries: ReportLegendEntry[], y: number, unit?: string) => {
+  ctx.font = `18px ${FONT}`;
+  for (const entry of entries) {
+    ctx.fillStyle = entry.color;
+    ctx.fillRect(MARGIN, y, 24, 24);
+    ctx.fillStyle = '#111827';
+    ctx.fillText(entry.label, MARGIN + 36, y + 3);
+    if (entry.range) {
+      ctx.fillStyle = '#4b5563';
+      ctx.fillText(`${entry.range}${unit ? ` ${unit}` : ''}`, MARGIN + 320, y + 3);
+    }
+    y += 34;
+  }
+  return y;
+};
+
+const formatNumber = (value: number | null, unit?: string) =>
+  value === null ? '—' : `${value.toFixed(2)}${unit ? ` ${unit}` : ''}`;
+
+const drawStatistics = (ctx: CanvasRenderingContext2D, content: ReportContent, y: number) => {
+  const rows: [string, string][] = [];
+  if (content.measurements) {
+    rows.push(['Area', `${(content.measurements.areaM2 / 10000).toFixed(2)} ha`]);
+    rows.push(['Perimeter', `${(content.measurements.perimeterM / 1000).toFixed(2)} km`]);
+  }
+  if (content.stats) {
+    const { stats } = content;
+    rows.push(
+      ['Mean', formatNumber(stats.mean, content.unit)],
+      ['Median', formatNumber(stats.median, content.unit)],
+      ['Min / Max', `${formatNumber(stats.min)} / ${formatNumber(stats.max, content.unit)}`],
+      ['P10 / P90', `${formatNumber(stats.p10)} / ${formatNumber(stats.p90, content.unit)}`],
+      ['Coverage', `${(stats.coverage * 100).toFixed(0)}% valid (${stats.validSamples}/${stats.samples} samples)`]
+    );
+  }
+
+  ctx.font = `18px ${FONT}`;
+  for (const [label, value] of rows) {
+    ctx.fillStyle = '#4b5563';
+    ctx.fillText(label, MARGIN, y);
+    ctx.fillStyle = '#111827';
+    ctx.fillText(value, MARGIN + 200, y);
+    y += 30;
+  }
+
+  if (content.classShares && content.classShares.length > 0 && content.stats?.validSamples) {
+    y += 10;
+    let x = MARGIN;
+    for (const share of content.classShares) {
+      ctx.fillStyle = share.color;
+      ctx.fillRect(x, y, CONTENT_WIDTH * share.share, 20);
+      x += CONTENT_WIDTH * share.share;
+    }
+    y += 30;
+    ctx.font = `16px ${FONT}`;
+    ctx.fillStyle = '#374151';
+    ctx.fillText(
+      content.classShares.map((share) => `${share.label} ${(share.share * 100).toFixed(0)}%`).join('   '),
+      MARGIN,
+      y
+    );
+    y += 30;
+  }
+  return y;
+};
+
+// Trace the area on a map snapshot taken at the given scale
+export const drawAreaOutline = (canvas: HTMLCanvasElement, map: L.Map, feature: AreaFeature, scale = 1) => {
+  const ctx = canvas.getContext('2d')!;
+  const polygons: Position[][][] = feature.geometry.type === 'Polygon'
+    ? [feature.geometry.coordinates]
+    : feature.geometry.coordinates;
+
+  ctx.save();
+  ctx.scale(scale, scale);
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 3;
+  ctx.setLineDash([8, 4]);
+  ctx.beginPath();
+  for (const ring of polygons.flat()) {
+    ring.forEach(([lng, lat], i) => {
+      const point = map.latLngToContainerPoint([lat, lng]);
+      if (i === 0) ctx.moveTo(point.x, point.y);
+      else ctx.lineTo(point.x, point.y);
+    });
+    ctx.closePath();
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Rasterize SVG markup, e.g. a chart rendered to a string
+export const svgToImage = (markup: string, width: number, height: number): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const withSize = markup.replace('<svg', `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"`);
+    const url = URL.createObjectURL(new Blob([withSize], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart'));
+    };
+    image.src = url;
+  });
+
+export const renderReportPages = (content: ReportContent, resolution = 1): HTMLCanvasElement[] => {
+  const first = createPage(resolution);
+  let y = MARGIN;
+  first.ctx.font = `bold 36px ${FONT}`;
+  first.ctx.fillStyle = '#111827';
+  first.ctx.fillText(content.title, MARGIN, y);
+  y = drawParagraph(first.ctx, content.subtitle, y + 50, `18px ${FONT}`, '#4b5563');
+
+  // Fit the map to the content width, leaving room for the legend
+  const mapScale = Math.min(CONTENT_WIDTH / content.map.width, 900 / content.map.height);
+  const mapWidth = content.map.width * mapScale;
+  const mapHeight = content.map.height * mapScale;
+  y += 20;
+  first.ctx.drawImage(content.map, MARGIN + (CONTENT_WIDTH - mapWidth) / 2, y, mapWidth, mapHeight);
+  y += mapHeight + 30;
+
+  if (content.legend) {
+    y = drawHeading(first.ctx, `${content.indicatorName} legend`, y);
+    y = content.legend.type === 'ramp'
+      ? drawRamp(first.ctx, content.legend.stops, y, content.unit)
+      : drawLegend(first.ctx, content.legend.entries, y);
+  }
+  if (content.classification && content.classification.length > 0) {
+    y = drawHeading(first.ctx, 'Quality classes', y + 10);
+    y = drawLegend(first.ctx, content.classification, y, content.unit);
+  }
+
+  const second = createPage(resolution);
+  y = MARGIN;
+  if (content.measurements || content.stats) {
+    y = drawHeading(second.ctx, 'Area statistics', y);
+    y = drawStatistics(second.ctx, content, y) + 20;
+  }
+  if (content.chart) {
+    y = drawHeading(second.ctx, 'Time series', y);
+    const chartHeight = (CONTENT_WIDTH * content.chart.height) / content.chart.width;
+    second.ctx.drawImage(content.chart, MARGIN, y, CONTENT_WIDTH, chartHeight);
+    y += chartHeight + 30;
+  }
+  y = drawHeading(second.ctx, `About ${content.indicatorName}`, y);
+  y = drawParagraph(second.ctx, content.description, y, `18px ${FONT}`);
+  if (content.quote) {
+    drawParagraph(second.ctx, content.quote, y + 20, `italic 16px ${FONT}`, '#4b5563');
+  }
+
+  const pages = [first.canvas, second.canvas];
+  pages.forEach((page, index) => {
+    const ctx = page.getContext('2d')!;
+    drawFooter(ctx, index + 1, pages.length);
+  });
+  return pages;
+};
+
+const toBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), 'image/png');
+  });
+
+export const exportReport = async (content: ReportContent, format: ReportFormat, filename: string) => {
+  if (format === 'pdf') {
+    const pages = renderReportPages(content);
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    pages.forEach((page, index) => {
+      if (index > 0) pdf.addPage();
+      pdf.addImage(page, 'JPEG', 0, 0, 210, 297, undefined, 'FAST');
+    });
+    pdf.save(`${filename}.pdf`);
+    return;
+  }
+
+  // One tall image with the pages stacked
+  const pages = renderReportPages(content, PNG_RESOLUTION);
+  const sheet = document.createElement('canvas');
+  sheet.width = pages[0].width;
+  sheet.height = pages.reduce((height, page) => height + page.height, 0);
+  const ctx = sheet.getContext('2d')!;
+  let y = 0;
+  for (const page of pages) {
+    ctx.drawImage(page, 0, y);
+    y += page.height;
+  }
+  downloadBlob(await toBlob(sheet), `${filename}.png`);
+};
@@ -0,0 +1,98 @@
+import type { AreaFeature } from './areaStats';
+
+export interface SavedArea {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  feature: AreaFeature;
+  // Layers to summarize for this area; empty means every water quality indicator
+  indicators: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where areas are kept; a backend can replace the browser store by implementing this
+export interface AreaStore {
+  list: () => Promise<SavedArea[]>;
+  put: (area: SavedArea) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const DB_NAME = 'orber';
+const DB_VERSION = 1;
+const STORE_NAME = 'areas';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return promisify(request);
+};
+
+export const createIndexedDBAreaStore = (): AreaStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const transaction = async <T>(mode: IDBTransactionMode, run: (objects: IDBObjectStore) => IDBRequest<T>) => {
+    database ??= openDatabase();
+    const db = await database;
+    return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    list: async () => {
+      const areas = await transaction('readonly', (objects) => objects.getAll() as IDBRequest<SavedArea[]>);
+      return areas.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    put: async (area) => {
+      await transaction('readwrite', (objects) => objects.put(area));
+    },
+    remove: async (id) => {
+      await transaction('readwrite', (objects) => objects.delete(id));
+    },
+  };
+};
+
+export const areaStore: AreaStore = createIndexedDBAreaStore();
+
+export const createSavedArea = (
+  feature: AreaFeature,
+  details: Pick<SavedArea, 'name' | 'indicators'> & Partial<Pick<SavedArea, 'description' | 'tags'>>
+): SavedArea => {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  return {
+    id,
+    description: '',
+    tags: [],
+    ...details,
+    // Keep only the geometry and tag it so the map can tell it's already shown
+    feature: { type: 'Feature', properties: { name: details.name, savedAreaId: id }, geometry: feature.geometry },
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const duplicateArea = (area: SavedArea): SavedArea =>
+  createSavedArea(area.feature, {
+    name: `${area.name} (copy)`,
+    description: area.description,
+    tags: area.tags,
+    indicators: area.indicators,
+  });
+
+export const updateArea = (area: SavedArea, changes: Partial<Pick<SavedArea, 'name' | 'description' | 'tags' | 'indicators'>>): SavedArea => {
+  const updated = { ...area, ...changes, updatedAt: new Date().toISOString() };
+  return { ...updated, feature: { ...area.feature, properties: { ...area.feature.properties, name: updated.name } } };
+};
+
+// Tags are typed as a comma-separated list
+export const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean)));
@@ -0,0 +1,50 @@
+export interface Sensor {
+  id: string;
+  name: string;
+  // Sentinel Hub OGC WMS endpoint of the instance configured for this sensor
+  wmsUrl?: string;
+  // WFS feature type listing the sensor's scenes, used to find acquisition dates
+  sceneTypename: string;
+  // Catalog layers the instance can render
+  indicators: string[];
+  resolutionM: number;
+  revisitDays: number;
+}
+
+const STORAGE_KEY = 'orber.sensor';
+
+// Adding a data source only takes a new entry here (and its instance URL in the environment)
+export const SENSORS: Sensor[] = [
+  {
+    id: 'sentinel-2',
+    name: 'Sentinel',
+    wmsUrl: import.meta.env.VITE_SENTINEL_WMS_URL
+      ?? 'https://sh.dataspace.copernicus.eu/ogc/wms/fd8fbb51-cfdf-460d-9839-6dc55ee39ffa',
+    sceneTypename: 'DSS2',
+    indicators: ['CHLA', 'DISSOLVED-OXYGEN', 'TOTAL-SUSPENDED-SOLIDS', 'TURBIDITY', 'INCENDIOS-FORESTALES'],
+    resolutionM: 10,
+    revisitDays: 5
+  },
+  {
+    id: 'planetscope',
+    name: 'PlanetScope',
+    wmsUrl: import.meta.env.VITE_PLANETSCOPE_WMS_URL,
+    // PlanetScope orders are ingested into Sentinel Hub as a BYOC collection
+    sceneTypename: `byoc-${import.meta.env.VITE_PLANETSCOPE_COLLECTION ?? ''}`,
+    indicators: ['CHLA', 'TOTAL-SUSPENDED-SOLIDS', 'TURBIDITY'],
+    resolutionM: 3,
+    revisitDays: 1
+  }
+];
+
+export const isSensorAvailable = (sensor: Sensor): sensor is Sensor & { wmsUrl: string } => !!sensor.wmsUrl;
+
+export const loadSensor = (): Sensor & { wmsUrl: string } => {
+  const stored = SENSORS.find((sensor) => sensor.id === localStorage.getItem(STORAGE_KEY));
+  if (stored && isSensorAvailable(stored)) return stored;
+  return SENSORS.filter(isSensorAvailable)[0];
+};
+
+export const saveSensor = (sensor: Sensor) => {
+  localStorage.setItem(STORAGE_KEY, sensor.id);
+};
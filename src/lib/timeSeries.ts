@@ -0,0 +1,73 @@
+import { bbox } from '@turf/turf';
+import { latLngBounds } from 'leaflet';
+import type { LatLng, LatLngBounds } from 'leaflet';
+import { fetchAcquisitionDates } from './acquisitions';
+import { AreaFeature, computeStatistics, samplePolygon } from './areaStats';
+import { mapWithConcurrency } from './concurrency';
+import { getPointValue, getPointValues, PointQuery } from './featureInfo';
+
+export type TimeSeriesTarget =
+  | { type: 'point'; latlng: LatLng }
+  | { type: 'area'; feature: AreaFeature };
+
+export interface TimeSeriesPoint {
+  // Acquisition date, yyyy-MM-dd
+  date: string;
+  value: number | null;
+  reason?: string;
+}
+
+// Fewer samples per date than the area statistics: the series multiplies requests by the number of dates
+const AREA_SAMPLES_PER_DATE = 25;
+
+const targetBounds = (target: TimeSeriesTarget): LatLngBounds => {
+  if (target.type === 'point') return target.latlng.toBounds(20);
+  const [west, south, east, north] = bbox(target.feature);
+  return latLngBounds([south, west], [north, east]);
+};
+
+const sampleDate = async (query: PointQuery, target: TimeSeriesTarget, date: string): Promise<TimeSeriesPoint> => {
+  const dated = { ...query, time: date };
+  if (target.type === 'point') {
+    const result = await getPointValue(dated, target.latlng);
+    return result.value === null ? { date, value: null, reason: result.reason } : { date, value: result.value };
+  }
+
+  const results = await getPointValues(dated, samplePolygon(target.feature, AREA_SAMPLES_PER_DATE), { concurrency: 4 });
+  const { mean } = computeStatistics(results.map((result) => result.value));
+  return mean === null ? { date, value: null, reason: 'No valid pixels' } : { date, value: mean };
+};
+
+// Value of the indicator (the area mean for polygons) on every acquisition within the time window
+export const fetchTimeSeries = async (
+  query: PointQuery & { time: string; typename?: string },
+  target: TimeSeriesTarget,
+  onProgress?: (done: number, total: number) => void
+): Promise<TimeSeriesPoint[]> => {
+  const { dates } = await fetchAcquisitionDates(query.url, {
+    bounds: targetBounds(target),
+    time: query.time,
+    typename: query.typename,
+    signal: query.signal,
+  });
+
+  return mapWithConcurrency(dates, async (date): Promise<TimeSeriesPoint> => {
+    try {
+      return await sampleDate(query, target, date);
+    } catch (error) {
+      if (query.signal?.aborted) throw error;
+      return { date, value: null, reason: error instanceof Error ? error.message : 'Request failed' };
+    }
+  }, { concurrency: target.type === 'point' ? 6 : 1, onProgress });
+};
+
+export const escapeCSV = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const timeSeriesToCSV = (series: TimeSeriesPoint[], columnName: string): string => {
+  const rows = series.map((point) => [
+    point.date,
+    point.value === null ? '' : String(point.value),
+    escapeCSV(point.reason ?? ''),
+  ].join(','));
+  return [`date,${escapeCSV(columnName)},note`, ...rows].join('\n');
+};
@@ -0,0 +1,66 @@
+import { along, length, lineString } from '@turf/turf';
+import { latLng } from 'leaflet';
+import type { LatLng } from 'leaflet';
+import { getPointValues, PointQuery } from './featureInfo';
+import { escapeCSV } from './timeSeries';
+
+export interface TransectSample {
+  // Meters from the start of the line
+  distance: number;
+  latlng: LatLng;
+  value: number | null;
+  reason?: string;
+}
+
+const MAX_SAMPLES = 60;
+// Sentinel-2 pixels are 10 m wide, closer samples would read the same pixel
+const MIN_SPACING_M = 10;
+
+// Spacing rounded up to 1, 2 or 5 times a power of ten so the distances read well
+export const transectSpacing = (lengthM: number, maxSamples = MAX_SAMPLES) => {
+  const raw = Math.max(MIN_SPACING_M, lengthM / (maxSamples - 1));
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].find((factor) => factor * magnitude >= raw)! * magnitude;
+};
+
+// Points at regular intervals along the line, ending on its last vertex
+export const sampleLine = (latlngs: LatLng[], spacing?: number): { distance: number; latlng: LatLng }[] => {
+  if (latlngs.length < 2) return [];
+  const line = lineString(latlngs.map((point) => [point.lng, point.lat]));
+  const total = length(line, { units: 'meters' });
+  const step = spacing ?? transectSpacing(total);
+
+  const distances: number[] = [];
+  for (let distance = 0; distance < total; distance += step) distances.push(distance);
+  distances.push(total);
+
+  return distances.map((distance) => {
+    const [lng, lat] = along(line, distance, { units: 'meters' }).geometry.coordinates;
+    return { distance, latlng: latLng(lat, lng) };
+  });
+};
+
+// Value of the indicator at each sample of the line; failed points come back as no data
+export const fetchTransect = async (
+  query: PointQuery,
+  latlngs: LatLng[],
+  onProgress?: (done: number, total: number) => void
+): Promise<TransectSample[]> => {
+  const samples = sampleLine(latlngs);
+  const results = await getPointValues(query, samples.map((sample) => sample.latlng), { concurrency: 4, onProgress });
+  return samples.map((sample, index) => {
+    const result = results[index];
+    return result.value === null ? { ...sample, value: null, reason: result.reason } : { ...sample, value: result.value };
+  });
+};
+
+export const transectToCSV = (samples: TransectSample[], columnName: string): string => {
+  const rows = samples.map((sample) => [
+    sample.distance.toFixed(1),
+    sample.latlng.lat.toFixed(6),
+    sample.latlng.lng.toFixed(6),
+    sample.value === null ? '' : String(sample.value),
+    escapeCSV(sample.reason ?? ''),
+  ].join(','));
+  return [`distance_m,lat,lng,${escapeCSV(columnName)},note`, ...rows].join('\n');
+};
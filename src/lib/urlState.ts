@@ -0,0 +1,175 @@
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import type { OverlayLayer } from './layers';
+
+export interface ViewState {
+  center?: [number, number];
+  zoom?: number;
+  sensor?: string;
+  layer?: string;
+  // yyyy-MM-dd
+  from?: string;
+  to?: string;
+  // Polygons as rings of [lng, lat] positions
+  areas?: Position[][][];
+  basemap?: string;
+  // Bottom to top
+  overlays?: OverlayLayer[];
+}
+
+// Query parameters, kept short so links stay readable
+const PARAMS = {
+  center: 'c',
+  zoom: 'z',
+  sensor: 's',
+  layer: 'i',
+  dates: 'd',
+  areas: 'a',
+  basemap: 'b',
+  overlays: 'o',
+};
+
+const PRECISION = 1e5;
+// Longer area strings are left out of the URL, some servers and chat apps truncate long links
+export const MAX_AREAS_LENGTH = 4000;
+
+// Encoded polyline algorithm: coordinate deltas at 5 decimals packed into ASCII 63-126,
+// so rings are separated with ';' and polygons with ','
+const encodeNumber = (value: number) => {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+  return encoded + String.fromCharCode(shifted + 63);
+};
+
+export const encodeRing = (ring: Position[]) => {
+  let lat = 0;
+  let lng = 0;
+  let encoded = '';
+  for (const [x, y] of ring) {
+    const nextLat = Math.round(y * PRECISION);
+    const nextLng = Math.round(x * PRECISION);
+    encoded += encodeNumber(nextLat - lat) + encodeNumber(nextLng - lng);
+    lat = nextLat;
+    lng = nextLng;
+  }
+  return encoded;
+};
+
+export const decodeRing = (encoded: string): Position[] => {
+  const ring: Position[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeNumber = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) throw new Error('Truncated polyline');
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeNumber();
+    lng += decodeNumber();
+    ring.push([lng / PRECISION, lat / PRECISION]);
+  }
+  return ring;
+};
+
+export const encodeAreas = (polygons: Position[][][]) =>
+  polygons.map((rings) => rings.map(encodeRing).join(';')).join(',');
+
+export const decodeAreas = (encoded: string): Position[][][] =>
+  encoded.split(',').filter(Boolean).map((polygon) => polygon.split(';').map(decodeRing));
+
+// Flatten polygon and multipolygon features into a list of polygons
+export const featuresToPolygons = (features: Feature[]): Position[][][] =>
+  features.flatMap((feature) => {
+    if (feature.geometry?.type === 'Polygon') return [(feature.geometry as Polygon).coordinates];
+    if (feature.geometry?.type === 'MultiPolygon') return (feature.geometry as MultiPolygon).coordinates;
+    return [];
+  });
+
+// Overlays as LAYER or LAYER@opacity percent, hidden ones prefixed with '!'
+export const encodeOverlays = (overlays: OverlayLayer[]) =>
+  overlays
+    .map(({ layer, opacity, visible }) => `${visible ? '' : '!'}${layer}${opacity < 1 ? `@${Math.round(opacity * 100)}` : ''}`)
+    .join(',');
+
+export const decodeOverlays = (encoded: string): OverlayLayer[] =>
+  encoded.split(',').filter(Boolean).map((part) => {
+    const visible = !part.startsWith('!');
+    const [layer, percent] = (visible ? part : part.slice(1)).split('@');
+    const opacity = Number(percent);
+    return { layer, visible, opacity: percent && Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity / 100)) : 1 };
+  });
+
+const parseNumber = (text: string | undefined) => {
+  const value = Number(text);
+  return text && Number.isFinite(value) ? value : undefined;
+};
+
+export const parseViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const state: ViewState = {};
+
+  const [lat, lng] = (params.get(PARAMS.center) ?? '').split(',').map(parseNumber);
+  if (lat !== undefined && lng !== undefined) state.center = [lat, lng];
+  state.zoom = parseNumber(params.get(PARAMS.zoom) ?? undefined);
+  state.sensor = params.get(PARAMS.sensor) ?? undefined;
+  state.layer = params.get(PARAMS.layer) ?? undefined;
+
+  const [from, to] = (params.get(PARAMS.dates) ?? '').split('/');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    state.from = from;
+    state.to = /^\d{4}-\d{2}-\d{2}$/.test(to ?? '') ? to : from;
+  }
+
+  state.basemap = params.get(PARAMS.basemap) ?? undefined;
+  const overlays = params.get(PARAMS.overlays);
+  if (overlays) state.overlays = decodeOverlays(overlays);
+
+  const areas = params.get(PARAMS.areas);
+  if (areas) {
+    try {
+      state.areas = decodeAreas(areas);
+    } catch (error) {
+      console.error('Error decoding areas from the URL:', error);
+    }
+  }
+  return state;
+};
+
+// Serialize a view; areas that don't fit are dropped and reported
+export const serializeViewState = (state: ViewState): { search: string; areasOmitted: boolean } => {
+  const params = new URLSearchParams();
+  if (state.center) params.set(PARAMS.center, state.center.map((value) => value.toFixed(5)).join(','));
+  if (state.zoom !== undefined) params.set(PARAMS.zoom, String(state.zoom));
+  if (state.sensor) params.set(PARAMS.sensor, state.sensor);
+  if (state.layer) params.set(PARAMS.layer, state.layer);
+  if (state.from) params.set(PARAMS.dates, state.to && state.to !== state.from ? `${state.from}/${state.to}` : state.from);
+  if (state.basemap) params.set(PARAMS.basemap, state.basemap);
+  if (state.overlays) params.set(PARAMS.overlays, encodeOverlays(state.overlays));
+
+  let areasOmitted = false;
+  if (state.areas && state.areas.length > 0) {
+    const encoded = encodeAreas(state.areas);
+    if (encoded.length <= MAX_AREAS_LENGTH) {
+      params.set(PARAMS.areas, encoded);
+    } else {
+      areasOmitted = true;
+    }
+  }
+
+  const search = params.toString();
+  return { search: search ? `?${search}` : '', areasOmitted };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { computeValidationStats, nearestAcquisition, summarizeByStation, ValidationMatch } from './validation';
+
+describe('nearestAcquisition', () => {
+  const acquisitions = ['2024-03-01', '2024-03-04', '2024-03-06', '2024-03-12'];
+
+  it('picks the closest acquisition on either side', () => {
+    expect(nearestAcquisition('2024-03-03', acquisitions, 3)).toEqual({ date: '2024-03-04', offsetDays: 1 });
+    expect(nearestAcquisition('2024-03-07', acquisitions, 3)).toEqual({ date: '2024-03-06', offsetDays: -1 });
+  });
+
+  it('prefers the earlier acquisition on a tie', () => {
+    expect(nearestAcquisition('2024-03-05', acquisitions, 3)).toEqual({ date: '2024-03-04', offsetDays: -1 });
+  });
+
+  it('only matches within maxDays, inclusive', () => {
+    expect(nearestAcquisition('2024-03-09', acquisitions, 3)).toEqual({ date: '2024-03-06', offsetDays: -3 });
+    expect(nearestAcquisition('2024-03-09', acquisitions, 2)).toBeNull();
+    expect(nearestAcquisition('2024-03-20', acquisitions, 5)).toBeNull();
+    expect(nearestAcquisition('2024-03-04', [], 5)).toBeNull();
+  });
+});
+
+describe('computeValidationStats', () => {
+  it('matches hand-computed bias, RMSE, MAE and R²', () => {
+    // Errors 1, 1, 1.5: bias 7/6, MAE 7/6, RMSE sqrt(4.25/3)
+    // Covariance 2.5, observed variance 2, estimated variance 19/6: R² = 6.25 / (2 * 19/6) = 75/76
+    const stats = computeValidationStats([
+      { observed: 1, estimated: 2 },
+      { observed: 2, estimated: 3 },
+      { observed: 3, estimated: 4.5 },
+    ])!;
+    expect(stats.n).toBe(3);
+    expect(stats.bias).toBeCloseTo(7 / 6, 10);
+    expect(stats.mae).toBeCloseTo(7 / 6, 10);
+    expect(stats.rmse).toBeCloseTo(Math.sqrt(4.25 / 3), 10);
+    expect(stats.r2).toBeCloseTo(75 / 76, 10);
+    expect(stats.slope).toBeCloseTo(1.25, 10);
+    expect(stats.intercept).toBeCloseTo(19 / 6 - 1.25 * 2, 10);
+  });
+
+  it('gives a negative bias when the estimates are too low', () => {
+    const stats = computeValidationStats([
+      { observed: 10, estimated: 8 },
+      { observed: 20, estimated: 16 },
+    ])!;
+    expect(stats.bias).toBe(-3);
+    expect(stats.rmse).toBeCloseTo(Math.sqrt(10), 10);
+    expect(stats.r2).toBeCloseTo(1, 10);
+  });
+
+  it('leaves R² and the fit out when there is no spread', () => {
+    const single = computeValidationStats([{ observed: 2, estimated: 3 }])!;
+    expect(single.r2).toBeNull();
+    expect(single.slope).toBeNull();
+    expect(single.bias).toBe(1);
+
+    const flatObserved = computeValidationStats([
+      { observed: 5, estimated: 4 },
+      { observed: 5, estimated: 6 },
+    ])!;
+    expect(flatObserved.r2).toBeNull();
+    expect(flatObserved.rmse).toBe(1);
+
+    const flatEstimated = computeValidationStats([
+      { observed: 1, estimated: 3 },
+      { observed: 2, estimated: 3 },
+    ])!;
+    expect(flatEstimated.r2).toBeNull();
+    expect(flatEstimated.slope).toBe(0);
+  });
+
+  it('skips non-finite pairs and returns null without any', () => {
+    expect(computeValidationStats([{ observed: NaN, estimated: 1 }, { observed: 1, estimated: 2 }])?.n).toBe(1);
+    expect(computeValidationStats([])).toBeNull();
+  });
+});
+
+describe('summarizeByStation', () => {
+  const match = (station: string, observed: number, estimated: number, offsetDays: number): ValidationMatch => ({
+    station,
+    observed,
+    estimated,
+    offsetDays,
+    sampleDate: '2024-03-05',
+    acquisitionDate: '2024-03-05',
+  });
+
+  it('groups matches by station in order of first appearance', () => {
+    const summaries = summarizeByStation([
+      match('B', 1, 2, 0),
+      match('A', 4, 4, -2),
+      match('B', 3, 3, 1),
+    ]);
+    expect(summaries.map((summary) => summary.station)).toEqual(['B', 'A']);
+    expect(summaries[0].stats.n).toBe(2);
+    expect(summaries[0].stats.bias).toBe(0.5);
+    expect(summaries[0].maxOffsetDays).toBe(1);
+    expect(summaries[1].maxOffsetDays).toBe(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export interface AcquisitionMatch {
+  // Acquisition date, yyyy-MM-dd
+  date: string;
+  // Days from the sample to the acquisition, negative when the image was taken before
+  offsetDays: number;
+}
+
+export interface ValidationPair {
+  observed: number;
+  estimated: number;
+}
+
+export interface ValidationMatch extends ValidationPair {
+  station: string;
+  // Sampling date and the acquisition it was matched to, yyyy-MM-dd
+  sampleDate: string;
+  acquisitionDate: string;
+  offsetDays: number;
+}
+
+export interface ValidationStats {
+  n: number;
+  // Mean of estimated minus observed
+  bias: number;
+  rmse: number;
+  mae: number;
+  // Squared Pearson correlation; null with fewer than two pairs or no spread
+  r2: number | null;
+  // Least squares fit of estimated on observed
+  slope: number | null;
+  intercept: number | null;
+  meanObserved: number;
+  meanEstimated: number;
+}
+
+export interface StationSummary {
+  station: string;
+  stats: ValidationStats;
+  // Largest gap between a sample and its acquisition, in days
+  maxOffsetDays: number;
+}
+
+// Acquisition closest in time to the sampling date within maxDays either way; ties go to the earlier image
+export const nearestAcquisition = (date: string, acquisitions: string[], maxDays: number): AcquisitionMatch | null => {
+  const sampled = parseISO(date);
+  let best: AcquisitionMatch | null = null;
+  for (const acquisition of acquisitions) {
+    const offsetDays = differenceInCalendarDays(parseISO(acquisition), sampled);
+    if (Math.abs(offsetDays) > maxDays) continue;
+    if (
+      !best ||
+      Math.abs(offsetDays) < Math.abs(best.offsetDays) ||
+      (Math.abs(offsetDays) === Math.abs(best.offsetDays) && offsetDays < best.offsetDays)
+    ) {
+      best = { date: acquisition, offsetDays };
+    }
+  }
+  return best;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const computeValidationStats = (pairs: ValidationPair[]): ValidationStats | null => {
+  const valid = pairs.filter(({ observed, estimated }) => Number.isFinite(observed) && Number.isFinite(estimated));
+  if (valid.length === 0) return null;
+
+  const errors = valid.map(({ observed, estimated }) => estimated - observed);
+  const meanObserved = mean(valid.map((pair) => pair.observed));
+  const meanEstimated = mean(valid.map((pair) => pair.estimated));
+
+  let covariance = 0;
+  let varianceObserved = 0;
+  let varianceEstimated = 0;
+  for (const { observed, estimated } of valid) {
+    covariance += (observed - meanObserved) * (estimated - meanEstimated);
+    varianceObserved += (observed - meanObserved) ** 2;
+    varianceEstimated += (estimated - meanEstimated) ** 2;
+  }
+
+  const hasSpread = valid.length >= 2 && varianceObserved > 0;
+  const slope = hasSpread ? covariance / varianceObserved : null;
+
+  return {
+    n: valid.length,
+    bias: mean(errors),
+    rmse: Math.sqrt(mean(errors.map((error) => error * error))),
+    mae: mean(errors.map(Math.abs)),
+    r2: hasSpread && varianceEstimated > 0 ? covariance ** 2 / (varianceObserved * varianceEstimated) : null,
+    slope,
+    intercept: slope === null ? null : meanEstimated - slope * meanObserved,
+    meanObserved,
+    meanEstimated,
+  };
+};
+
+// Statistics per station, in order of first appearance
+export const summarizeByStation = (matches: ValidationMatch[]): StationSummary[] => {
+  const groups = new Map<string, ValidationMatch[]>();
+  for (const match of matches) {
+    groups.set(match.station, [...(groups.get(match.station) ?? []), match]);
+  }
+  return Array.from(groups).flatMap(([station, group]) => {
+    const stats = computeValidationStats(group);
+    if (!stats) return [];
+    return [{ station, stats, maxOffsetDays: Math.max(...group.map((match) => Math.abs(match.offsetDays))) }];
+  });
+};
@@ -0,0 +1,193 @@
+import { getDefaultClassifications } from './indicators';
+
+export type Direction = 'lower-is-better' | 'higher-is-better';
+
+export interface QualityClass {
+  label: string;
+  color: string;
+}
+
+export interface ParameterScheme {
+  direction: Direction;
+  // Classes from best to worst
+  classes: QualityClass[];
+  // Boundaries between consecutive classes, one fewer than the classes. A value on a
+  // boundary belongs to the better class
+  breaks: number[];
+  // Span of values worth showing on charts
+  range: [number, number];
+  citation?: string;
+}
+
+export interface ClassificationProfile {
+  id: string;
+  name: string;
+  description?: string;
+  citation?: string;
+  // Schemes keyed by WMS layer; parameters without one are left unclassified
+  parameters: Record<string, ParameterScheme>;
+}
+
+export const DEFAULT_PROFILE: ClassificationProfile = {
+  id: 'default',
+  name: 'Good / Medium / Poor',
+  description: 'General purpose three-class ranges',
+  // Each indicator declares its own default classes
+  parameters: getDefaultClassifications()
+};
+
+const OECD_TROPHIC_PROFILE: ClassificationProfile = {
+  id: 'oecd-trophic',
+  name: 'OECD trophic state (lakes)',
+  description: 'Trophic categories from mean chlorophyll-a',
+  citation: 'OECD (1982). "Eutrophication of waters: monitoring, assessment and control." Paris: OECD.',
+  parameters: {
+    'CHLA': {
+      direction: 'lower-is-better',
+      classes: [
+        { label: 'Ultra-oligotrophic', color: '#3b82f6' },
+        { label: 'Oligotrophic', color: '#22c55e' },
+        { label: 'Mesotrophic', color: '#eab308' },
+        { label: 'Eutrophic', color: '#f97316' },
+        { label: 'Hypertrophic', color: '#ef4444' }
+      ],
+      breaks: [1, 2.5, 8, 25],
+      range: [0, 40]
+    }
+  }
+};
+
+export const BUILT_IN_PROFILES = [DEFAULT_PROFILE, OECD_TROPHIC_PROFILE];
+
+// Layers the app treats as water quality parameters
+export const WATER_QUALITY_PARAMETERS = Object.keys(DEFAULT_PROFILE.parameters);
+
+// Class of a value, or null when the profile has no scheme for the parameter
+export const classify = (value: number, scheme?: ParameterScheme): QualityClass | null => {
+  if (!scheme) return null;
+  const index = scheme.breaks.findIndex((limit) =>
+    scheme.direction === 'lower-is-better' ? value <= limit : value >= limit
+  );
+  return scheme.classes[index === -1 ? scheme.classes.length - 1 : index];
+};
+
+// Value span of each class, clipped to the scheme's range at the open ends
+export const getClassBounds = (scheme: ParameterScheme) => {
+  const ascending = scheme.direction === 'lower-is-better';
+  const [low, high] = scheme.range;
+  return scheme.classes.map((qualityClass, i) => {
+    const start = i === 0 ? (ascending ? low : high) : scheme.breaks[i - 1];
+    const end = i === scheme.classes.length - 1 ? (ascending ? high : low) : scheme.breaks[i];
+    return { ...qualityClass, from: Math.min(start, end), to: Math.max(start, end) };
+  });
+};
+
+// Value bands of each class, for shading charts
+export const getQualityBands = (scheme?: ParameterScheme) =>
+  scheme ? getClassBounds(scheme).map(({ from, to, color, label }) => ({ from, to, color, label })) : [];
+
+// Human readable range of each class, e.g. "≤ 2.5", "2.5 – 7", "> 7"
+export const describeClassRanges = (scheme: ParameterScheme) => {
+  const [better, worse] = scheme.direction === 'lower-is-better' ? ['≤', '>'] : ['≥', '<'];
+  return scheme.classes.map((qualityClass, i) => {
+    if (i === 0) return { ...qualityClass, range: `${better} ${scheme.breaks[0]}` };
+    if (i === scheme.classes.length - 1) return { ...qualityClass, range: `${worse} ${scheme.breaks[i - 1]}` };
+    const [a, b] = [scheme.breaks[i - 1], scheme.breaks[i]].sort((x, y) => x - y);
+    return { ...qualityClass, range: `${a} – ${b}` };
+  });
+};
+
+// Share of the values falling in each class, 0-1
+export const computeClassShares = (values: number[], scheme?: ParameterScheme) => {
+  if (!scheme) return [];
+  return scheme.classes.map((qualityClass) => ({
+    ...qualityClass,
+    share: values.length > 0
+      ? values.filter((value) => classify(value, scheme) === qualityClass).length / values.length
+      : 0
+  }));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateScheme = (parameter: string, scheme: unknown): ParameterScheme => {
+  const fail = (message: string): never => {
+    throw new Error(`${parameter}: ${message}`);
+  };
+  if (!isObject(scheme)) fail('scheme must be an object');
+  const { direction, classes, breaks, range, citation } = scheme as Record<string, unknown>;
+
+  if (direction !== 'lower-is-better' && direction !== 'higher-is-better') {
+    fail('direction must be "lower-is-better" or "higher-is-better"');
+  }
+  if (!Array.isArray(classes) || classes.length < 2) fail('needs at least two classes');
+  for (const qualityClass of classes as unknown[]) {
+    if (!isObject(qualityClass) || typeof qualityClass.label !== 'string' || typeof qualityClass.color !== 'string') {
+      fail('every class needs a label and a color');
+    }
+  }
+  const classCount = (classes as unknown[]).length;
+  if (!Array.isArray(breaks) || breaks.length !== classCount - 1 || !breaks.every((value) => typeof value === 'number')) {
+    fail(`needs ${classCount - 1} numeric breaks`);
+  }
+  const ordered = (breaks as number[]).every((value, i, all) =>
+    i === 0 || (direction === 'lower-is-better' ? value > all[i - 1] : value < all[i - 1])
+  );
+  if (!ordered) fail(`breaks must be ${direction === 'lower-is-better' ? 'increasing' : 'decreasing'}`);
+  if (!Array.isArray(range) || range.length !== 2 || !range.every((value) => typeof value === 'number') || range[0] >= range[1]) {
+    fail('range must be [min, max]');
+  }
+  if (citation !== undefined && typeof citation !== 'string') fail('citation must be text');
+
+  return scheme as unknown as ParameterScheme;
+};
+
+// Parse and validate a profile from its JSON export
+export const parseProfile = (text: string): ClassificationProfile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Profile is not valid JSON');
+  }
+  if (!isObject(data)) throw new Error('Profile must be a JSON object');
+  if (typeof data.id !== 'string' || !data.id) throw new Error('Profile needs an id');
+  if (typeof data.name !== 'string' || !data.name) throw new Error('Profile needs a name');
+  if (!isObject(data.parameters) || Object.keys(data.parameters).length === 0) {
+    throw new Error('Profile needs at least one parameter scheme');
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    citation: typeof data.citation === 'string' ? data.citation : undefined,
+    parameters: Object.fromEntries(
+      Object.entries(data.parameters).map(([parameter, scheme]) => [parameter, validateScheme(parameter, scheme)])
+    )
+  };
+};
+
+const PROFILES_KEY = 'orber.classificationProfiles';
+const ACTIVE_PROFILE_KEY = 'orber.classificationProfile';
+
+export const loadCustomProfiles = (): ClassificationProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error('Error reading classification profiles:', error);
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: ClassificationProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = () => localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILE.id;
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
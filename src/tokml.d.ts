@@ -0,0 +1,14 @@
+declare module 'tokml' {
+  import type { GeoJSON } from 'geojson';
+
+  interface TokmlOptions {
+    documentName?: string;
+    documentDescription?: string;
+    name?: string;
+    description?: string;
+    simplestyle?: boolean;
+    timestamp?: string;
+  }
+
+  export default function tokml(geojson: GeoJSON, options?: TokmlOptions): string;
+}
@@ -0,0 +1,78 @@
+// Turf 6 ships its types outside its package exports, so declare the functions used here
+declare module '@turf/turf' {
+  import type {
+    BBox,
+    Feature,
+    FeatureCollection,
+    GeoJSON,
+    GeoJsonProperties,
+    Geometry,
+    LineString,
+    MultiLineString,
+    MultiPolygon,
+    Point,
+    Polygon,
+    Position,
+  } from 'geojson';
+
+  type Units =
+    | 'meters'
+    | 'millimeters'
+    | 'centimeters'
+    | 'kilometers'
+    | 'acres'
+    | 'miles'
+    | 'nauticalmiles'
+    | 'inches'
+    | 'yards'
+    | 'feet'
+    | 'radians'
+    | 'degrees'
+    | 'hectares';
+  type Coord = Feature<Point> | Point | Position;
+
+  export function along(line: Feature<LineString> | LineString, distance: number, options?: { units?: Units }): Feature<Point>;
+  export function area(geojson: Feature | FeatureCollection | Geometry): number;
+  export function bbox(geojson: GeoJSON): BBox;
+  export function booleanDisjoint(feature1: Feature | Geometry, feature2: Feature | Geometry): boolean;
+  export function booleanPointInPolygon(
+    point: Coord,
+    polygon: Feature<Polygon | MultiPolygon> | Polygon | MultiPolygon,
+    options?: { ignoreBoundary?: boolean },
+  ): boolean;
+  export function centroid<P = GeoJsonProperties>(geojson: GeoJSON, options?: { properties?: P }): Feature<Point, P>;
+  export function circle<P = GeoJsonProperties>(
+    center: Coord,
+    radius: number,
+    options?: { steps?: number; units?: Units; properties?: P },
+  ): Feature<Polygon, P>;
+  export function distance(from: Coord, to: Coord, options?: { units?: Units }): number;
+  export function flatten<T extends Polygon | MultiPolygon>(geojson: Feature<T> | FeatureCollection<T> | T): FeatureCollection<Polygon>;
+  export function flatten<T extends LineString | MultiLineString>(
+    geojson: Feature<T> | FeatureCollection<T> | T,
+  ): FeatureCollection<LineString>;
+  export function flatten(geojson: GeoJSON): FeatureCollection;
+  export function isobands(
+    points: FeatureCollection<Point>,
+    breaks: number[],
+    options?: { zProperty?: string; commonProperties?: GeoJsonProperties; breaksProperties?: GeoJsonProperties[] },
+  ): FeatureCollection<MultiPolygon>;
+  export function kinks(featureIn: Feature<LineString | MultiLineString | Polygon | MultiPolygon> | Geometry): FeatureCollection<Point>;
+  export function length(geojson: Feature | FeatureCollection | Geometry, options?: { units?: Units }): number;
+  export function lineString<P = GeoJsonProperties>(coordinates: Position[], properties?: P): Feature<LineString, P>;
+  export function point<P = GeoJsonProperties>(coordinates: Position, properties?: P): Feature<Point, P>;
+  export function pointGrid<P = GeoJsonProperties>(
+    bbox: BBox,
+    cellSide: number,
+    options?: { units?: Units; mask?: Feature<Polygon | MultiPolygon>; properties?: P },
+  ): FeatureCollection<Point, P>;
+  export function pointToLineDistance(
+    pt: Coord,
+    line: Feature<LineString> | LineString,
+    options?: { units?: Units; method?: 'geodesic' | 'planar' },
+  ): number;
+  export function polygon<P = GeoJsonProperties>(coordinates: Position[][], properties?: P): Feature<Polygon, P>;
+  export function polygonToLine<P = GeoJsonProperties>(
+    poly: Feature<Polygon | MultiPolygon, P> | Polygon | MultiPolygon,
+  ): Feature<LineString | MultiLineString, P> | FeatureCollection<LineString | MultiLineString, P>;
+}
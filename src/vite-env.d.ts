@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SENTINEL_WMS_URL?: string;
+  readonly VITE_PLANETSCOPE_WMS_URL?: string;
+  readonly VITE_PLANETSCOPE_COLLECTION?: string;
+  readonly VITE_NOMINATIM_URL?: string;
+  readonly VITE_NOMINATIM_EMAIL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}